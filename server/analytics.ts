@@ -0,0 +1,205 @@
+import { parseApiRequest } from './taskStats.js';
+import { findWorkspace } from './workspace.js';
+import type { ApiMessage, UiMessage } from '../shared/history.js';
+
+export interface DailyUsage {
+  requests: number;
+  tokensIn: number;
+  tokensOut: number;
+  cacheReads: number;
+  cacheWrites: number;
+  cost: number;
+}
+
+export interface TaskAnalytics {
+  mode: string | null;
+  workspace: string | null;
+  turns: number;
+  toolUses: Record<string, number>;
+  toolErrors: Record<string, number>;
+  condenseCount: number;
+  truncationCount: number;
+  daily: Record<string, DailyUsage>;
+}
+
+interface AnalyticsTask {
+  createdAt: number;
+  analytics: TaskAnalytics;
+}
+
+export interface AnalyticsFilter {
+  from?: string;
+  to?: string;
+  workspace?: string;
+}
+
+export interface AnalyticsReport {
+  totals: DailyUsage & {
+    tasks: number;
+    avgTurns: number;
+    condenseCount: number;
+    truncationCount: number;
+    tasksWithCondense: number;
+    tasksWithTruncation: number;
+  };
+  daily: (DailyUsage & { date: string })[];
+  tools: { name: string; uses: number; errors: number; errorRate: number }[];
+  modes: { mode: string; tasks: number }[];
+  workspaces: string[];
+}
+
+const MODE_PATTERN = /# Current Mode\s*<slug>([^<]+)<\/slug>/;
+
+export function getDateKey(ts: number): string {
+  const date = new Date(ts);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function emptyUsage(): DailyUsage {
+  return { requests: 0, tokensIn: 0, tokensOut: 0, cacheReads: 0, cacheWrites: 0, cost: 0 };
+}
+
+function addUsage(target: DailyUsage, source: DailyUsage) {
+  target.requests += source.requests;
+  target.tokensIn += source.tokensIn;
+  target.tokensOut += source.tokensOut;
+  target.cacheReads += source.cacheReads;
+  target.cacheWrites += source.cacheWrites;
+  target.cost += source.cost;
+}
+
+function findInUserText(conversation: ApiMessage[], pattern: RegExp): string | null {
+  for (const message of conversation) {
+    if (message.role !== 'user' || !Array.isArray(message.content)) continue;
+    for (const block of message.content) {
+      if (block.type !== 'text' || !block.text) continue;
+      const match = block.text.match(pattern);
+      if (match) return match[1].trim();
+    }
+  }
+  return null;
+}
+
+export function computeTaskAnalytics(apiConversation: ApiMessage[], uiMessages: UiMessage[] | null): TaskAnalytics {
+  const analytics: TaskAnalytics = {
+    mode: findInUserText(apiConversation, MODE_PATTERN),
+    workspace: findWorkspace(apiConversation),
+    turns: 0,
+    toolUses: {},
+    toolErrors: {},
+    condenseCount: 0,
+    truncationCount: 0,
+    daily: {}
+  };
+
+  const toolNames = new Map<string, string>();
+  for (const message of apiConversation) {
+    if (message.isSummary) analytics.condenseCount++;
+    if (message.isTruncationMarker) analytics.truncationCount++;
+    if (message.role === 'assistant') analytics.turns++;
+    if (!Array.isArray(message.content)) continue;
+
+    for (const block of message.content) {
+      if (block.type === 'tool_use' && block.name) {
+        analytics.toolUses[block.name] = (analytics.toolUses[block.name] ?? 0) + 1;
+        if (block.id) toolNames.set(block.id, block.name);
+      } else if (block.type === 'tool_result' && block.is_error) {
+        const name = toolNames.get(block.tool_use_id ?? '') ?? 'unknown';
+        analytics.toolErrors[name] = (analytics.toolErrors[name] ?? 0) + 1;
+      }
+    }
+  }
+
+  for (const message of uiMessages ?? []) {
+    const request = parseApiRequest(message);
+    if (!request) continue;
+    const key = getDateKey(message.ts);
+    const day = analytics.daily[key] ?? (analytics.daily[key] = emptyUsage());
+    addUsage(day, {
+      requests: 1,
+      tokensIn: request.tokensIn ?? 0,
+      tokensOut: request.tokensOut ?? 0,
+      cacheReads: request.cacheReads ?? 0,
+      cacheWrites: request.cacheWrites ?? 0,
+      cost: request.cost ?? 0
+    });
+  }
+
+  return analytics;
+}
+
+function inRange(date: string, filter: AnalyticsFilter): boolean {
+  return (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+}
+
+export function buildReport(tasks: AnalyticsTask[], filter: AnalyticsFilter): AnalyticsReport {
+  const workspaces = new Set<string>();
+  const daily = new Map<string, DailyUsage>();
+  const tools = new Map<string, { uses: number; errors: number }>();
+  const modes = new Map<string, number>();
+  const totals: AnalyticsReport['totals'] = {
+    ...emptyUsage(),
+    tasks: 0,
+    avgTurns: 0,
+    condenseCount: 0,
+    truncationCount: 0,
+    tasksWithCondense: 0,
+    tasksWithTruncation: 0
+  };
+  let turns = 0;
+
+  for (const { createdAt, analytics } of tasks) {
+    if (analytics.workspace) workspaces.add(analytics.workspace);
+    if (filter.workspace && analytics.workspace !== filter.workspace) continue;
+
+    // Spend is attributed to the day each request happened
+    for (const [date, usage] of Object.entries(analytics.daily)) {
+      if (!inRange(date, filter)) continue;
+      const day = daily.get(date) ?? emptyUsage();
+      addUsage(day, usage);
+      daily.set(date, day);
+      addUsage(totals, usage);
+    }
+
+    // Task-level metrics are attributed to the day the task started
+    if (!inRange(getDateKey(createdAt), filter)) continue;
+
+    totals.tasks++;
+    turns += analytics.turns;
+    totals.condenseCount += analytics.condenseCount;
+    totals.truncationCount += analytics.truncationCount;
+    if (analytics.condenseCount > 0) totals.tasksWithCondense++;
+    if (analytics.truncationCount > 0) totals.tasksWithTruncation++;
+
+    const mode = analytics.mode ?? 'unknown';
+    modes.set(mode, (modes.get(mode) ?? 0) + 1);
+
+    for (const [name, uses] of Object.entries(analytics.toolUses)) {
+      const tool = tools.get(name) ?? { uses: 0, errors: 0 };
+      tool.uses += uses;
+      tools.set(name, tool);
+    }
+    for (const [name, errors] of Object.entries(analytics.toolErrors)) {
+      const tool = tools.get(name) ?? { uses: 0, errors: 0 };
+      tool.errors += errors;
+      tools.set(name, tool);
+    }
+  }
+
+  totals.avgTurns = totals.tasks > 0 ? turns / totals.tasks : 0;
+
+  return {
+    totals,
+    daily: Array.from(daily, ([date, usage]) => ({ date, ...usage })).sort((a, b) => a.date.localeCompare(b.date)),
+    tools: Array.from(tools, ([name, { uses, errors }]) => ({
+      name,
+      uses,
+      errors,
+      errorRate: uses > 0 ? errors / uses : 0
+    })).sort((a, b) => b.uses - a.uses),
+    modes: Array.from(modes, ([mode, count]) => ({ mode, tasks: count })).sort((a, b) => b.tasks - a.tasks),
+    workspaces: Array.from(workspaces).sort()
+  };
+}
@@ -0,0 +1,225 @@
+import path from 'path';
+import crypto from 'crypto';
+import { getDataDir, readJsonFile, writeJsonFile } from './storage.js';
+
+const STORE_VERSION = 1;
+
+export const SEVERITIES = ['info', 'warning', 'error'] as const;
+export type Severity = typeof SEVERITIES[number];
+
+/**
+ * A note on a message, or on one block of it. Positions use the same
+ * indexes as search hits: messages in history order and blocks after XML
+ * tool calls have been expanded. The message's timestamp is kept too, so
+ * the note can be placed again after Roo rewrites the history.
+ */
+export interface Annotation {
+  id: string;
+  messageIndex: number;
+  /** ts of the annotated message; missing on notes made before it was recorded */
+  messageTs?: number;
+  blockIndex: number | null;
+  label: string;
+  comment: string;
+  severity: Severity;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AnnotationSummary {
+  count: number;
+  severity: Severity;
+}
+
+export type AnnotationInput = Pick<Annotation, 'messageIndex' | 'messageTs' | 'blockIndex' | 'label' | 'comment' | 'severity'>;
+
+interface StoreFile {
+  version: number;
+  tasksPath: string;
+  tasks: Record<string, Annotation[]>;
+}
+
+export class AnnotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnnotationError';
+  }
+}
+
+const MAX_LABEL_LENGTH = 100;
+const MAX_COMMENT_LENGTH = 10000;
+
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isSeverity(value: unknown): value is Severity {
+  return SEVERITIES.some((severity) => severity === value);
+}
+
+function parseFields(body: unknown, partial: boolean): Partial<AnnotationInput> {
+  if (!body || typeof body !== 'object') {
+    throw new AnnotationError('Expected a JSON object');
+  }
+
+  const fields = body as Record<string, unknown>;
+  const input: Partial<AnnotationInput> = {};
+
+  if (fields.messageIndex !== undefined || !partial) {
+    if (!isIndex(fields.messageIndex)) throw new AnnotationError('messageIndex must be a non-negative integer');
+    input.messageIndex = fields.messageIndex;
+  }
+  if (fields.messageTs !== undefined) {
+    if (!isIndex(fields.messageTs)) throw new AnnotationError('messageTs must be a non-negative integer');
+    input.messageTs = fields.messageTs;
+  }
+  if (fields.blockIndex !== undefined || !partial) {
+    const blockIndex = fields.blockIndex ?? null;
+    if (blockIndex !== null && !isIndex(blockIndex)) throw new AnnotationError('blockIndex must be a non-negative integer or null');
+    input.blockIndex = blockIndex;
+  }
+  if (fields.label !== undefined || !partial) {
+    const label = typeof fields.label === 'string' ? fields.label.trim() : '';
+    if (label.length > MAX_LABEL_LENGTH) throw new AnnotationError(`label must be at most ${MAX_LABEL_LENGTH} characters`);
+    input.label = label;
+  }
+  if (fields.comment !== undefined || !partial) {
+    const comment = typeof fields.comment === 'string' ? fields.comment.trim() : '';
+    if (comment.length > MAX_COMMENT_LENGTH) throw new AnnotationError(`comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+    input.comment = comment;
+  }
+  if (fields.severity !== undefined || !partial) {
+    const severity = fields.severity ?? 'info';
+    if (!isSeverity(severity)) throw new AnnotationError(`severity must be one of ${SEVERITIES.join(', ')}`);
+    input.severity = severity;
+  }
+
+  return input;
+}
+
+function requireText(annotation: Pick<AnnotationInput, 'label' | 'comment'>) {
+  if (!annotation.label && !annotation.comment) {
+    throw new AnnotationError('An annotation needs a label or a comment');
+  }
+}
+
+/** Validate the body of a new annotation. */
+export function parseAnnotationInput(body: unknown): AnnotationInput {
+  const input = parseFields(body, false) as AnnotationInput;
+  requireText(input);
+  return input;
+}
+
+/** Validate an update, which may carry any subset of the fields. */
+export function parseAnnotationPatch(body: unknown): Partial<AnnotationInput> {
+  return parseFields(body, true);
+}
+
+function byPosition(a: Annotation, b: Annotation): number {
+  return a.messageIndex - b.messageIndex || (a.blockIndex ?? -1) - (b.blockIndex ?? -1) || a.createdAt - b.createdAt;
+}
+
+/**
+ * Annotations for every task of one source, kept in the app's data
+ * directory so Roo's own task files are never written to.
+ */
+export class AnnotationStore {
+  private tasks = new Map<string, Annotation[]>();
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private readonly storePath: string;
+
+  constructor(private readonly tasksPath: string) {
+    const hash = crypto.createHash('sha1').update(tasksPath).digest('hex').slice(0, 16);
+    this.storePath = path.join(getDataDir(), 'annotations', `${hash}.json`);
+  }
+
+  async list(taskId: string): Promise<Annotation[]> {
+    await this.load();
+    return this.tasks.get(taskId) ?? [];
+  }
+
+  /** Count and worst severity per annotated task, for markers in the task list. */
+  async summary(): Promise<Record<string, AnnotationSummary>> {
+    await this.load();
+    const summary: Record<string, AnnotationSummary> = {};
+    for (const [taskId, annotations] of this.tasks) {
+      if (annotations.length === 0) continue;
+      const worst = Math.max(...annotations.map((annotation) => SEVERITIES.indexOf(annotation.severity)));
+      summary[taskId] = { count: annotations.length, severity: SEVERITIES[worst] };
+    }
+    return summary;
+  }
+
+  async add(taskId: string, input: AnnotationInput): Promise<Annotation> {
+    await this.load();
+    const now = Date.now();
+    const annotation: Annotation = { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+    this.tasks.set(taskId, [...(this.tasks.get(taskId) ?? []), annotation].sort(byPosition));
+    this.save();
+    return annotation;
+  }
+
+  /**
+   * Returns null when no such annotation exists. Throws an AnnotationError
+   * when the patch would leave it without a label or a comment.
+   */
+  async update(taskId: string, id: string, patch: Partial<AnnotationInput>): Promise<Annotation | null> {
+    await this.load();
+    const annotations = this.tasks.get(taskId) ?? [];
+    const existing = annotations.find((annotation) => annotation.id === id);
+    if (!existing) return null;
+
+    const updated: Annotation = { ...existing, ...patch, updatedAt: Date.now() };
+    requireText(updated);
+    this.tasks.set(taskId, annotations.map((annotation) => annotation.id === id ? updated : annotation).sort(byPosition));
+    this.save();
+    return updated;
+  }
+
+  async remove(taskId: string, id: string): Promise<boolean> {
+    await this.load();
+    const annotations = this.tasks.get(taskId) ?? [];
+    const remaining = annotations.filter((annotation) => annotation.id !== id);
+    if (remaining.length === annotations.length) return false;
+
+    if (remaining.length > 0) this.tasks.set(taskId, remaining);
+    else this.tasks.delete(taskId);
+    this.save();
+    return true;
+  }
+
+  // Concurrent first requests share a single read of the store file
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = readJsonFile<StoreFile>(this.storePath).then((file) => {
+        if (file && file.version === STORE_VERSION && file.tasksPath === this.tasksPath) {
+          this.tasks = new Map(Object.entries(file.tasks));
+        }
+      });
+    }
+    return this.loading;
+  }
+
+  private save() {
+    const file: StoreFile = {
+      version: STORE_VERSION,
+      tasksPath: this.tasksPath,
+      tasks: Object.fromEntries(this.tasks)
+    };
+    this.saving = this.saving
+      .then(() => writeJsonFile(this.storePath, file))
+      .catch((error) => console.error('Failed to save annotations:', error));
+  }
+}
+
+const stores = new Map<string, AnnotationStore>();
+
+export function getAnnotationStore(tasksPath: string): AnnotationStore {
+  let store = stores.get(tasksPath);
+  if (!store) {
+    store = new AnnotationStore(tasksPath);
+    stores.set(tasksPath, store);
+  }
+  return store;
+}
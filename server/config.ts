@@ -0,0 +1,179 @@
+import path from 'path';
+import crypto from 'crypto';
+import net from 'net';
+import { parseArgs } from 'util';
+import { getDataDir, readJsonFile } from './storage.js';
+
+export interface CustomSource {
+  name: string;
+  path: string;
+}
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  token: string | null;
+  corsOrigins: string[];
+  sources: CustomSource[];
+  open: boolean;
+  help: boolean;
+}
+
+interface ConfigFile {
+  host?: string;
+  port?: number;
+  token?: string;
+  corsOrigins?: string[];
+  sources?: Record<string, string>;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export const USAGE = `Usage: rooversation [options]
+
+Options:
+  -p, --port <port>         Port to listen on (default: 3001, next free port is used)
+      --host <host>         Interface to bind (default: 127.0.0.1)
+      --source <name=path>  Add a task directory as a source (repeatable)
+      --token <token>       Require this access token for API requests
+      --config <file>       Config file (default: ~/.rooversation/config.json)
+      --open                Open the app in the default browser
+  -h, --help                Show this help
+`;
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3001;
+const DEFAULT_CORS_ORIGINS = ['http://localhost:5173', 'http://127.0.0.1:5173'];
+
+// Only IP literals count as 127.x, or a hostname such as 127.attacker.example would pass
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || (net.isIP(host) === 4 && host.startsWith('127.'));
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+function parsePort(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new ConfigError(`Invalid port: ${value}`);
+  }
+  return port;
+}
+
+// Source names become URL segments and ids in the client
+const SOURCE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/** Id of the merged view of every source, so no source may be named it. */
+export const ALL_SOURCES = 'all';
+
+export function createSource(name: string, sourcePath: string, baseDir: string): CustomSource {
+  if (!SOURCE_NAME_PATTERN.test(name)) {
+    throw new ConfigError(`Invalid source name "${name}", use letters, digits, ".", "_" or "-"`);
+  }
+  if (name === ALL_SOURCES) {
+    throw new ConfigError(`The source name "${ALL_SOURCES}" is reserved for the merged view`);
+  }
+  return { name, path: path.resolve(baseDir, sourcePath) };
+}
+
+function parseSource(value: string): CustomSource {
+  const separator = value.indexOf('=');
+  if (separator <= 0 || separator === value.length - 1) {
+    throw new ConfigError(`Invalid source "${value}", expected name=path`);
+  }
+  return createSource(value.slice(0, separator), value.slice(separator + 1), process.cwd());
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every((item) => typeof item === 'string');
+}
+
+/** Check the types of a parsed config file, which is hand-written and may be wrong. */
+function validateConfigFile(file: unknown, configPath: string): ConfigFile {
+  const invalid = (message: string) => new ConfigError(`Invalid config file ${configPath}: ${message}`);
+  if (!file || typeof file !== 'object' || Array.isArray(file)) throw invalid('expected a JSON object');
+
+  const fields = file as Record<string, unknown>;
+  for (const key of ['host', 'token'] as const) {
+    if (fields[key] !== undefined && typeof fields[key] !== 'string') throw invalid(`"${key}" must be a string`);
+  }
+  if (fields.port !== undefined && typeof fields.port !== 'number') throw invalid('"port" must be a number');
+  if (fields.corsOrigins !== undefined && (
+    !Array.isArray(fields.corsOrigins) || fields.corsOrigins.some((origin) => typeof origin !== 'string')
+  )) {
+    throw invalid('"corsOrigins" must be an array of strings');
+  }
+  if (fields.sources !== undefined && !isStringRecord(fields.sources)) {
+    throw invalid('"sources" must map names to folder paths');
+  }
+  return fields as ConfigFile;
+}
+
+export async function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ServerConfig> {
+  // `pnpm start -- <flags>` forwards the literal "--", which strict parsing rejects
+  if (argv[0] === '--') argv = argv.slice(1);
+
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      options: {
+        port: { type: 'string', short: 'p' },
+        host: { type: 'string' },
+        source: { type: 'string', multiple: true },
+        token: { type: 'string' },
+        config: { type: 'string' },
+        open: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    }).values;
+  } catch (error) {
+    throw new ConfigError((error as Error).message);
+  }
+
+  const configPath = args.config ? path.resolve(args.config) : path.join(getDataDir(), 'config.json');
+  const raw = await readJsonFile<unknown>(configPath);
+  if (args.config && !raw) {
+    throw new ConfigError(`Could not read config file: ${configPath}`);
+  }
+  const file = raw === null ? null : validateConfigFile(raw, configPath);
+
+  // Precedence: CLI flags, then environment, then config file
+  const host = args.host || env.ROOVERSATION_HOST || file?.host || DEFAULT_HOST;
+  let token = args.token || env.ROOVERSATION_TOKEN || file?.token || null;
+
+  // Never expose conversations beyond this machine without a token
+  if (!token && !isLoopbackHost(host)) {
+    token = crypto.randomBytes(24).toString('base64url');
+  }
+
+  const fileSources = Object.entries(file?.sources ?? {}).map(([name, sourcePath]) =>
+    createSource(name, sourcePath, path.dirname(configPath))
+  );
+
+  return {
+    host,
+    port: parsePort(args.port) ?? parsePort(env.ROOVERSATION_PORT) ?? parsePort(file?.port) ?? DEFAULT_PORT,
+    token,
+    corsOrigins: [
+      ...splitList(env.ROOVERSATION_CORS_ORIGINS),
+      ...(file?.corsOrigins ?? []),
+      ...DEFAULT_CORS_ORIGINS
+    ],
+    sources: [...fileSources, ...(args.source ?? []).map(parseSource)],
+    open: args.open ?? false,
+    help: args.help ?? false
+  };
+}
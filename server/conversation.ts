@@ -0,0 +1,124 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import type { ApiMessage, UiMessage } from '../shared/history.js';
+
+export interface Conversation {
+  apiConversation: ApiMessage[];
+  uiMessages: UiMessage[] | null;
+}
+
+/** Anything stamped with a timestamp, as both history files' messages are. */
+interface TimedMessage {
+  ts: number;
+}
+
+export interface MessagePatch<T extends TimedMessage = TimedMessage> {
+  start: number;
+  messages: T[];
+}
+
+export function getConversationPaths(tasksPath: string, id: string) {
+  return {
+    api: path.join(tasksPath, id, 'api_conversation_history.json'),
+    ui: path.join(tasksPath, id, 'ui_messages.json')
+  };
+}
+
+export async function readConversation(tasksPath: string, id: string): Promise<Conversation> {
+  const paths = getConversationPaths(tasksPath, id);
+  const apiContent = await fs.readFile(paths.api, 'utf-8');
+  const apiConversation: ApiMessage[] = JSON.parse(apiContent);
+
+  let uiMessages: UiMessage[] | null = null;
+  try {
+    const uiContent = await fs.readFile(paths.ui, 'utf-8');
+    uiMessages = JSON.parse(uiContent);
+  } catch {
+    // ui_messages.json might not exist, that's ok
+  }
+
+  return { apiConversation, uiMessages };
+}
+
+/**
+ * What the server last sent a client for one message list: the timestamp of
+ * every message plus a hash of the last one, which Roo rewrites in place
+ * while streaming. A null tail means the client's copy of it is unknown.
+ */
+export interface MessageState {
+  timestamps: number[];
+  tail: string | null;
+}
+
+export function getMessageState(messages: TimedMessage[] | null): MessageState {
+  return {
+    timestamps: messages ? messages.map((m) => m.ts) : [],
+    tail: messages?.length ? hashMessages(messages.slice(-1)) : null
+  };
+}
+
+/**
+ * Compute the messages a client holding `previous` needs to catch up with
+ * `next`. The client replaces everything from `start` onward. The last known
+ * message is resent only when its content changed.
+ */
+export function diffMessages<T extends TimedMessage>(previous: MessageState, next: T[]): MessagePatch<T> | null {
+  const known = previous.timestamps;
+  let divergence = 0;
+  while (
+    divergence < known.length &&
+    divergence < next.length &&
+    known[divergence] === next[divergence].ts
+  ) {
+    divergence++;
+  }
+
+  let start = divergence;
+  if (divergence === known.length && known.length > 0) {
+    const tailChanged = hashMessages(next.slice(known.length - 1, known.length)) !== previous.tail;
+    if (tailChanged) start = known.length - 1;
+  }
+
+  if (start === next.length && next.length === known.length) return null;
+  return { start, messages: next.slice(start) };
+}
+
+/**
+ * Weak ETag derived from file stats, so unchanged conversations can be
+ * answered with a 304 without reading or parsing them.
+ */
+export async function getConversationETag(tasksPath: string, id: string): Promise<string> {
+  const paths = getConversationPaths(tasksPath, id);
+  const apiStat = await fs.stat(paths.api);
+  const uiStat = await fs.stat(paths.ui).catch(() => null);
+  const parts = [apiStat.mtimeMs, apiStat.size, uiStat?.mtimeMs ?? 0, uiStat?.size ?? 0];
+  return `W/"${parts.map((n) => Math.round(n * 1000).toString(36)).join('-')}"`;
+}
+
+function hashMessages(messages: unknown[]): string {
+  return crypto.createHash('sha1').update(JSON.stringify(messages)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Opaque cursor describing what a client holds: the message count plus a hash
+ * of every message except the last, which may still be rewritten in place.
+ */
+export function getCursor(messages: unknown[]): string {
+  return `${messages.length}.${hashMessages(messages.slice(0, -1))}`;
+}
+
+/**
+ * Messages appended since `cursor`, or null when the history before the
+ * cursor was rewritten (condense, checkpoint restore) and the client must
+ * reload everything.
+ */
+export function patchSince<T extends TimedMessage>(cursor: string, messages: T[]): MessagePatch<T> | null {
+  const [countPart, hash] = cursor.split('.');
+  const count = Number(countPart);
+  if (!Number.isInteger(count) || count < 0 || count > messages.length) return null;
+  if (hashMessages(messages.slice(0, Math.max(count - 1, 0))) !== hash) return null;
+
+  const start = Math.max(count - 1, 0);
+  return { start, messages: messages.slice(start) };
+}
@@ -1,120 +1,610 @@
+#!/usr/bin/env node
 import express from 'express';
 import cors from 'cors';
+import compression from 'compression';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import net from 'net';
+import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
+import {
+  getSources,
+  getTaskSourcePath,
+  resolveSources,
+  setCustomSources,
+  parseSourceInput,
+  addSavedSource,
+  removeSavedSource,
+  SourceError,
+  type TaskSource
+} from './sources.js';
+import { getTaskIndex } from './taskIndex.js';
+import {
+  readConversation,
+  diffMessages,
+  getMessageState,
+  type MessageState,
+  getConversationETag,
+  getCursor,
+  patchSince
+} from './conversation.js';
+import { watchTasks } from './watcher.js';
+import { getSearchIndex, parseQuery, QueryError } from './search.js';
+import { buildReport } from './analytics.js';
+import { getAnnotationStore, parseAnnotationInput, parseAnnotationPatch, AnnotationError } from './annotations.js';
+import {
+  getTaskMetaStore,
+  parseMetaPatch,
+  parseSavedView,
+  getSavedViews,
+  addSavedView,
+  removeSavedView,
+  TaskMetaError
+} from './taskMeta.js';
+import { loadConfig, isLoopbackHost, ConfigError, USAGE, type ServerConfig } from './config.js';
+import { isValidTaskId, requireToken, requireLoopbackHost } from './security.js';
+import { getDataDir } from './storage.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// The compiled client sits beside dist/server; absent when running from source
+const CLIENT_DIR = path.resolve(__dirname, '../client');
+
+let config: ServerConfig;
+try {
+  config = await loadConfig();
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(`${error.message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+if (config.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+setCustomSources(config.sources);
+
 const app = express();
-app.use(cors());
+app.use(requireLoopbackHost(config.host));
+app.use(cors({ origin: config.corsOrigins }));
+app.use(compression({
+  // Event streams must be flushed as written, not buffered for gzip
+  filter: (req, res) => !req.path.startsWith('/api/events/') && compression.filter(req, res)
+}));
 app.use(express.json());
+app.use('/api', requireToken(config.token));
 
-const homeDir = os.homedir();
-const TASK_PATHS = {
-  nightly: path.join(homeDir, 'Library/Application Support/Code/User/globalStorage/rooveterinaryinc.roo-code-nightly/tasks'),
-  production: path.join(homeDir, 'Library/Application Support/Code/User/globalStorage/rooveterinaryinc.roo-cline/tasks')
-};
+// A task copied into several folders is listed once, from the first source
+function uniqueTasks<T extends { id: string }>(tasks: T[]): T[] {
+  const seen = new Set<string>();
+  return tasks.filter((task) => {
+    if (seen.has(task.id)) return false;
+    seen.add(task.id);
+    return true;
+  });
+}
 
-interface TaskInfo {
-  id: string;
-  timestamp: number;
-  firstMessage: string;
+/** Tasks of one source, or of every source for the merged view, tagged with their source id. */
+async function listTasks(sources: TaskSource[]) {
+  const lists = await Promise.all(sources.map(async (source) => {
+    try {
+      const tasks = await getTaskIndex(source.path).refresh();
+      return tasks.map((task) => ({ ...task, source: source.id }));
+    } catch (error) {
+      // One unreadable folder should not empty the merged list
+      if (sources.length === 1) throw error;
+      return [];
+    }
+  }));
+  return uniqueTasks(lists.flat()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/** Per-task records of each source merged by task id, agreeing with listTasks on duplicates. */
+async function mergeByTask<T>(
+  sources: TaskSource[],
+  read: (tasksPath: string) => Promise<Record<string, T>>
+): Promise<Record<string, T>> {
+  const records = await Promise.all(sources.map((source) => read(source.path)));
+  return Object.assign({}, ...records.reverse());
 }
 
+app.get('/api/sources', async (_req, res) => {
+  try {
+    res.json(await getSources(true));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to discover sources' });
+  }
+});
+
+app.post('/api/sources', async (req, res) => {
+  try {
+    res.status(201).json(await addSavedSource(parseSourceInput(req.body)));
+  } catch (error) {
+    if (error instanceof SourceError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to add source' });
+  }
+});
+
+app.delete('/api/sources/:id', async (req, res) => {
+  try {
+    if (!await removeSavedSource(req.params.id)) {
+      const known = (await getSources()).some((source) => source.id === req.params.id);
+      return known
+        ? res.status(400).json({ error: 'Only sources added in the app can be removed here' })
+        : res.status(404).json({ error: 'Source not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove source' });
+  }
+});
+
 app.get('/api/tasks/:source', async (req, res) => {
-  const source = req.params.source as 'nightly' | 'production';
-  const tasksPath = TASK_PATHS[source];
+  const sources = await resolveSources(req.params.source);
+  
+  if (sources.length === 0) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  try {
+    res.json(await listTasks(sources));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to read tasks' });
+  }
+});
+
+app.get('/api/task/:source/:id', async (req, res) => {
+  const { source, id } = req.params;
+  const tasksPath = await getTaskSourcePath(source, id);
   
   if (!tasksPath) {
     return res.status(400).json({ error: 'Invalid source' });
   }
 
+  if (!isValidTaskId(tasksPath, id)) {
+    return res.status(400).json({ error: 'Invalid task id' });
+  }
+
+  let etag: string;
   try {
-    const dirs = await fs.readdir(tasksPath, { withFileTypes: true });
-    const tasks: TaskInfo[] = [];
+    etag = await getConversationETag(tasksPath, id);
+  } catch {
+    return res.status(404).json({ error: 'Conversation not found' });
+  }
 
-    for (const dir of dirs) {
-      if (!dir.isDirectory()) continue;
-      
-      const conversationPath = path.join(tasksPath, dir.name, 'api_conversation_history.json');
-      
-      try {
-        const stat = await fs.stat(conversationPath);
-        const content = await fs.readFile(conversationPath, 'utf-8');
-        const conversation = JSON.parse(content);
-        
-        let firstMessage = '';
-        if (conversation.length > 0 && conversation[0].content) {
-          for (const block of conversation[0].content) {
-            if (block.type === 'text' && block.text) {
-              const taskMatch = block.text.match(/<task>([\s\S]*?)<\/task>/);
-              if (taskMatch) {
-                firstMessage = taskMatch[1].trim().slice(0, 200);
-              } else if (!block.text.includes('<environment_details>')) {
-                firstMessage = block.text.slice(0, 200);
-              }
-              if (firstMessage) break;
-            }
-          }
-        }
-        
-        tasks.push({
-          id: dir.name,
-          timestamp: stat.mtimeMs,
-          firstMessage: firstMessage || 'No message preview'
-        });
-      } catch {
-        // Skip if conversation file doesn't exist or is invalid
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', 'no-cache');
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  try {
+    const { apiConversation, uiMessages } = await readConversation(tasksPath, id);
+    const cursor = {
+      api: getCursor(apiConversation),
+      ui: uiMessages ? getCursor(uiMessages) : null
+    };
+
+    const { apiSince, uiSince } = req.query;
+    if (typeof apiSince === 'string') {
+      const api = patchSince(apiSince, apiConversation);
+      const ui = uiMessages
+        ? (typeof uiSince === 'string' ? patchSince(uiSince, uiMessages) : { start: 0, messages: uiMessages })
+        : null;
+
+      if (api && (ui || !uiMessages)) {
+        return res.json({ api, ui, cursor });
       }
+      return res.json({ reset: true, apiConversation, uiMessages, cursor });
     }
 
-    tasks.sort((a, b) => b.timestamp - a.timestamp);
-    res.json(tasks);
+    res.json({ apiConversation, uiMessages, cursor });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to read tasks' });
+    res.status(500).json({ error: 'Failed to read conversation' });
   }
 });
 
-app.get('/api/task/:source/:id', async (req, res) => {
+const DEFAULT_SEARCH_LIMIT = 50;
+
+app.get('/api/search/:source', async (req, res) => {
+  const sources = await resolveSources(req.params.source);
+
+  if (sources.length === 0) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (!q) {
+    return res.status(400).json({ error: 'Missing query' });
+  }
+
+  try {
+    const query = parseQuery(q);
+    const limit = Math.min(Number(req.query.limit) || DEFAULT_SEARCH_LIMIT, 500);
+    const responses = await Promise.all(sources.map(async (source) => {
+      const results = await getSearchIndex(source.path).search(query);
+      return results.map((result) => ({ ...result, source: source.id }));
+    }));
+    // Deduplicated before counting so a task in several folders is one match
+    const results = uniqueTasks(responses.flat())
+      .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+    res.json({ results: results.slice(0, limit), total: results.length });
+  } catch (error) {
+    if (error instanceof QueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to search tasks' });
+  }
+});
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+app.get('/api/analytics/:source', async (req, res) => {
+  const sources = await resolveSources(req.params.source);
+
+  if (sources.length === 0) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  const { from, to, workspace } = req.query;
+  for (const date of [from, to]) {
+    if (date !== undefined && (typeof date !== 'string' || !DATE_PATTERN.test(date))) {
+      return res.status(400).json({ error: 'Dates must be YYYY-MM-DD' });
+    }
+  }
+
+  try {
+    const entries = uniqueTasks(
+      (await Promise.all(sources.map((source) => getTaskIndex(source.path).entries()))).flat()
+    );
+    res.json(buildReport(entries, {
+      from: from as string | undefined,
+      to: to as string | undefined,
+      workspace: typeof workspace === 'string' && workspace ? workspace : undefined
+    }));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to compute analytics' });
+  }
+});
+
+app.get('/api/annotations/:source', async (req, res) => {
+  const sources = await resolveSources(req.params.source);
+
+  if (sources.length === 0) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  try {
+    res.json(await mergeByTask(sources, (tasksPath) => getAnnotationStore(tasksPath).summary()));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to read annotations' });
+  }
+});
+
+app.get('/api/annotations/:source/:id', async (req, res) => {
   const { source, id } = req.params;
-  const tasksPath = TASK_PATHS[source as 'nightly' | 'production'];
-  
+  const tasksPath = await getTaskSourcePath(source, id);
+
   if (!tasksPath) {
     return res.status(400).json({ error: 'Invalid source' });
   }
 
-  const apiConversationPath = path.join(tasksPath, id, 'api_conversation_history.json');
-  const uiMessagesPath = path.join(tasksPath, id, 'ui_messages.json');
-  
+  if (!isValidTaskId(tasksPath, id)) {
+    return res.status(400).json({ error: 'Invalid task id' });
+  }
+
   try {
-    const apiContent = await fs.readFile(apiConversationPath, 'utf-8');
-    const apiConversation = JSON.parse(apiContent);
-    
-    let uiMessages = null;
+    res.json(await getAnnotationStore(tasksPath).list(id));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to read annotations' });
+  }
+});
+
+app.post('/api/annotations/:source/:id', async (req, res) => {
+  const { source, id } = req.params;
+  const tasksPath = await getTaskSourcePath(source, id);
+
+  if (!tasksPath) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  if (!isValidTaskId(tasksPath, id)) {
+    return res.status(400).json({ error: 'Invalid task id' });
+  }
+
+  try {
+    const input = parseAnnotationInput(req.body);
+    res.status(201).json(await getAnnotationStore(tasksPath).add(id, input));
+  } catch (error) {
+    if (error instanceof AnnotationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to save annotation' });
+  }
+});
+
+app.patch('/api/annotations/:source/:id/:annotationId', async (req, res) => {
+  const { source, id, annotationId } = req.params;
+  const tasksPath = await getTaskSourcePath(source, id);
+
+  if (!tasksPath) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  if (!isValidTaskId(tasksPath, id)) {
+    return res.status(400).json({ error: 'Invalid task id' });
+  }
+
+  try {
+    const updated = await getAnnotationStore(tasksPath).update(id, annotationId, parseAnnotationPatch(req.body));
+    if (!updated) {
+      return res.status(404).json({ error: 'Annotation not found' });
+    }
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof AnnotationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to save annotation' });
+  }
+});
+
+app.delete('/api/annotations/:source/:id/:annotationId', async (req, res) => {
+  const { source, id, annotationId } = req.params;
+  const tasksPath = await getTaskSourcePath(source, id);
+
+  if (!tasksPath) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  if (!isValidTaskId(tasksPath, id)) {
+    return res.status(400).json({ error: 'Invalid task id' });
+  }
+
+  try {
+    if (!await getAnnotationStore(tasksPath).remove(id, annotationId)) {
+      return res.status(404).json({ error: 'Annotation not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete annotation' });
+  }
+});
+
+app.get('/api/task-meta/:source', async (req, res) => {
+  const sources = await resolveSources(req.params.source);
+
+  if (sources.length === 0) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  try {
+    res.json(await mergeByTask(sources, (tasksPath) => getTaskMetaStore(tasksPath).all()));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to read task tags' });
+  }
+});
+
+app.patch('/api/task-meta/:source/:id', async (req, res) => {
+  const { source, id } = req.params;
+  const tasksPath = await getTaskSourcePath(source, id);
+
+  if (!tasksPath) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  if (!isValidTaskId(tasksPath, id)) {
+    return res.status(400).json({ error: 'Invalid task id' });
+  }
+
+  try {
+    res.json(await getTaskMetaStore(tasksPath).update(id, parseMetaPatch(req.body)));
+  } catch (error) {
+    if (error instanceof TaskMetaError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to save task tags' });
+  }
+});
+
+app.get('/api/views', async (_req, res) => {
+  try {
+    res.json(await getSavedViews());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to read saved views' });
+  }
+});
+
+app.post('/api/views', async (req, res) => {
+  try {
+    res.status(201).json(await addSavedView(parseSavedView(req.body)));
+  } catch (error) {
+    if (error instanceof TaskMetaError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to save view' });
+  }
+});
+
+app.delete('/api/views/:id', async (req, res) => {
+  try {
+    if (!await removeSavedView(req.params.id)) {
+      return res.status(404).json({ error: 'View not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to delete view' });
+  }
+});
+
+const SSE_KEEPALIVE_MS = 30000;
+
+type TaskListClient = (tasks: Awaited<ReturnType<typeof listTasks>>) => void;
+
+interface TaskListFeed {
+  clients: Set<TaskListClient>;
+  unwatch: () => void;
+}
+
+const taskListFeeds = new Map<string, TaskListFeed>();
+
+/**
+ * Subscribe to the task list of a set of sources. Clients watching the same
+ * sources share one rescan per change. Returns an unsubscribe function.
+ */
+function subscribeTaskList(sources: TaskSource[], client: TaskListClient): () => void {
+  const key = sources.map((source) => source.path).join('\0');
+  let feed = taskListFeeds.get(key);
+  if (!feed) {
+    const clients = new Set<TaskListClient>();
+    const broadcast = async () => {
+      try {
+        const tasks = await listTasks(sources);
+        for (const send of clients) send(tasks);
+      } catch {
+        // Ignore transient read errors while tasks are being written
+      }
+    };
+    const unwatchers = sources.flatMap((source) => {
+      try {
+        return [watchTasks(source.path, broadcast)];
+      } catch (error) {
+        // A folder that has gone missing only loses live updates for its own tasks
+        console.error(`Cannot watch ${source.path}:`, error);
+        return [];
+      }
+    });
+    feed = { clients, unwatch: () => unwatchers.forEach((unwatch) => unwatch()) };
+    taskListFeeds.set(key, feed);
+  }
+
+  const current = feed;
+  current.clients.add(client);
+  return () => {
+    current.clients.delete(client);
+    if (current.clients.size === 0) {
+      current.unwatch();
+      taskListFeeds.delete(key);
+    }
+  };
+}
+
+/** State of the first `count` messages, whose last one the client may hold an older copy of. */
+function heldState(messages: { ts: number }[] | null, count: unknown): MessageState {
+  const held = (messages ?? []).slice(0, Number(count) || 0);
+  return { timestamps: getMessageState(held).timestamps, tail: null };
+}
+
+app.get('/api/events/:source', async (req, res) => {
+  // Registered before any await so a client leaving during setup leaks no watchers
+  let closed = false;
+  let keepalive: NodeJS.Timeout | undefined;
+  const unwatchers: Array<() => void> = [];
+  req.on('close', () => {
+    closed = true;
+    clearInterval(keepalive);
+    for (const unwatch of unwatchers) unwatch();
+  });
+
+  const sources = await resolveSources(req.params.source);
+
+  if (sources.length === 0) {
+    return res.status(400).json({ error: 'Invalid source' });
+  }
+
+  const taskId = typeof req.query.task === 'string' ? req.query.task : null;
+  const tasksPath = taskId ? await getTaskSourcePath(req.params.source, taskId) : undefined;
+
+  if (taskId && (!tasksPath || !isValidTaskId(tasksPath, taskId))) {
+    return res.status(400).json({ error: 'Invalid task id' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  function send(event: string, data: unknown) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  // Seed from the counts the client already holds so changes that landed
+  // between its initial fetch and this subscription are still delivered.
+  // Its copy of the last held message is unknown, so that one is resent.
+  let apiState: MessageState = { timestamps: [], tail: null };
+  let uiState: MessageState = { timestamps: [], tail: null };
+  if (taskId) {
     try {
-      const uiContent = await fs.readFile(uiMessagesPath, 'utf-8');
-      uiMessages = JSON.parse(uiContent);
+      const { apiConversation, uiMessages } = await readConversation(tasksPath!, taskId);
+      apiState = heldState(apiConversation, req.query.api);
+      uiState = heldState(uiMessages, req.query.ui);
     } catch {
-      // ui_messages.json might not exist, that's ok
+      // The task may not have written its history yet
+    }
+  }
+
+  if (closed) return;
+
+  async function sendConversation() {
+    if (!taskId) return;
+    try {
+      const { apiConversation, uiMessages } = await readConversation(tasksPath!, taskId);
+      const api = diffMessages(apiState, apiConversation);
+      const ui = uiMessages ? diffMessages(uiState, uiMessages) : null;
+      apiState = getMessageState(apiConversation);
+      uiState = getMessageState(uiMessages);
+      if (api || ui) send('conversation', { taskId, api, ui });
+    } catch {
+      // Files are often mid-write; the next change event will retry
+    }
+  }
+
+  unwatchers.push(subscribeTaskList(sources, (tasks) => send('tasks', tasks)));
+  if (taskId) {
+    try {
+      unwatchers.push(watchTasks(tasksPath!, (changedId) => {
+        if (changedId === taskId) sendConversation();
+      }));
+    } catch (error) {
+      console.error(`Cannot watch ${tasksPath}:`, error);
     }
-    
-    res.json({
-      apiConversation,
-      uiMessages
-    });
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to read conversation' });
   }
+
+  keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+
+  send('ready', { source: req.params.source, taskId });
+  await sendConversation();
 });
 
-const DEFAULT_PORT = 3001;
+let hasClient = false;
+try {
+  await fs.access(path.join(CLIENT_DIR, 'index.html'));
+  hasClient = true;
+} catch {
+  // Running from source; the Vite dev server serves the client instead
+}
+
+if (hasClient) {
+  app.use(express.static(CLIENT_DIR, { index: false }));
+  // Client-side routes all resolve to the SPA shell
+  app.get(/^(?!\/api\/).*/, (_req, res) => {
+    res.sendFile(path.join(CLIENT_DIR, 'index.html'));
+  });
+}
+
 const MAX_PORT_ATTEMPTS = 10;
 const PORT_FILE = path.join(os.tmpdir(), 'convo-viewer-server-port');
+// Kept in the user's own data directory, not the shared temp directory others can write to
+const TOKEN_FILE = path.join(getDataDir(), 'server-token');
 
-async function isPortAvailable(port: number): Promise<boolean> {
+async function isPortAvailable(port: number, host: string): Promise<boolean> {
   return new Promise((resolve) => {
     const server = net.createServer();
     server.once('error', () => resolve(false));
@@ -122,13 +612,13 @@ async function isPortAvailable(port: number): Promise<boolean> {
       server.close();
       resolve(true);
     });
-    server.listen(port);
+    server.listen(port, host);
   });
 }
 
-async function findAvailablePort(startPort: number): Promise<number> {
+async function findAvailablePort(startPort: number, host: string): Promise<number> {
   for (let port = startPort; port < startPort + MAX_PORT_ATTEMPTS; port++) {
-    if (await isPortAvailable(port)) {
+    if (await isPortAvailable(port, host)) {
       return port;
     }
     console.log(`Port ${port} is in use, trying ${port + 1}...`);
@@ -136,13 +626,39 @@ async function findAvailablePort(startPort: number): Promise<number> {
   throw new Error(`Could not find an available port after ${MAX_PORT_ATTEMPTS} attempts`);
 }
 
+function openBrowser(url: string) {
+  const command = process.platform === 'darwin' ? 'open' : process.platform === 'win32' ? 'cmd' : 'xdg-open';
+  const args = process.platform === 'win32' ? ['/c', 'start', '""', url] : [url];
+  const child = spawn(command, args, { detached: true, stdio: 'ignore' });
+  child.on('error', () => console.log(`Could not open a browser, visit ${url}`));
+  child.unref();
+}
+
 async function startServer() {
-  const port = await findAvailablePort(DEFAULT_PORT);
+  const port = await findAvailablePort(config.port, config.host);
   
   await fs.writeFile(PORT_FILE, port.toString(), 'utf-8');
+
+  // The Vite dev proxy forwards this token so the dev client works unchanged
+  await fs.rm(TOKEN_FILE, { force: true });
+  if (config.token) {
+    await fs.mkdir(path.dirname(TOKEN_FILE), { recursive: true, mode: 0o700 });
+    // 'wx' creates a fresh file, never writing through a link planted at the path
+    await fs.writeFile(TOKEN_FILE, config.token, { encoding: 'utf-8', mode: 0o600, flag: 'wx' });
+  }
   
-  app.listen(port, () => {
-    console.log(`Server running on http://localhost:${port}`);
+  app.listen(port, config.host, () => {
+    const displayHost = config.host.includes(':') ? `[${config.host}]` : config.host;
+    const url = `http://${displayHost}:${port}`;
+    console.log(`Server running on ${url}`);
+    if (config.token) {
+      console.log(`Access token required; open the app with ?token=${config.token}`);
+    }
+
+    if (hasClient && config.open) {
+      const openHost = isLoopbackHost(config.host) || config.host === '0.0.0.0' || config.host === '::' ? 'localhost' : displayHost;
+      openBrowser(`http://${openHost}:${port}/${config.token ? `?token=${config.token}` : ''}`);
+    }
   });
 }
 
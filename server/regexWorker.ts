@@ -0,0 +1,57 @@
+import { Worker } from 'worker_threads';
+
+export interface RegexSource {
+  source: string;
+  flags: string;
+}
+
+// Inline so the worker runs the same from source under tsx and when compiled
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { patterns, texts, maxMatches } = workerData;
+const regexes = patterns.map((pattern) => new RegExp(pattern.source, pattern.flags));
+parentPort.postMessage(texts.map((text) => regexes.map((regex) => {
+  const ranges = [];
+  regex.lastIndex = 0;
+  let match;
+  while (ranges.length < maxMatches && (match = regex.exec(text))) {
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+})));
+`;
+
+/**
+ * Match global regexes against texts off the main thread, since a pattern
+ * that backtracks catastrophically would otherwise stall every request.
+ * Resolves with the ranges per text and pattern, or null when matching
+ * took longer than `timeoutMs` and the worker was stopped.
+ */
+export function matchInWorker(
+  patterns: RegexSource[],
+  texts: string[],
+  maxMatches: number,
+  timeoutMs: number
+): Promise<[number, number][][][] | null> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { patterns, texts, maxMatches } });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      resolve(null);
+    }, timeoutMs);
+
+    worker.once('message', (ranges: [number, number][][][]) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(ranges);
+    });
+    worker.once('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
@@ -0,0 +1,350 @@
+import { readConversation } from './conversation.js';
+import { getTaskIndex, type TaskInfo } from './taskIndex.js';
+import { expandXmlToolCalls } from '../shared/xmlTools.js';
+import { getToolInputText } from '../shared/toolInput.js';
+import { matchInWorker } from './regexWorker.js';
+import type { ApiMessage, ContentBlock } from '../shared/history.js';
+
+interface SearchDocument {
+  messageIndex: number;
+  blockIndex: number;
+  role: string;
+  type: string;
+  tool: string | null;
+  text: string;
+  lowerText: string;
+}
+
+interface IndexedDocuments {
+  timestamp: number;
+  documents: SearchDocument[];
+  size: number;
+}
+
+type Matcher =
+  | { kind: 'text'; value: string }
+  | { kind: 'regex'; value: RegExp };
+
+interface ParsedQuery {
+  matchers: Matcher[];
+  filters: {
+    role?: string;
+    type?: string;
+    tool?: string;
+    task?: string;
+  };
+}
+
+export interface SearchHit {
+  messageIndex: number;
+  blockIndex: number;
+  role: string;
+  type: string;
+  tool: string | null;
+  snippet: string;
+  highlights: [number, number][];
+}
+
+export interface SearchResult extends TaskInfo {
+  score: number;
+  hitCount: number;
+  hits: SearchHit[];
+}
+
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+const FILTER_FIELDS = new Set(['role', 'type', 'tool', 'task']);
+const QUERY_TOKEN = /(\w+):("[^"]*"|\S+)|"([^"]*)"|\/((?:\\\/|[^/])+)\/([gimsuy]*)|(\S+)/g;
+// Regexes run in a worker that is stopped after REGEX_TIMEOUT_MS; the length
+// limits only keep the text copied to it and each snippet's cost reasonable
+const MAX_PATTERN_LENGTH = 200;
+const MAX_REGEX_SCAN_LENGTH = 20000;
+const REGEX_TIMEOUT_MS = 2000;
+// Characters of block text kept per source; least recently searched tasks are dropped first
+const MAX_CACHED_CHARS = 10_000_000;
+const SNIPPET_RADIUS = 60;
+const MAX_HITS_PER_TASK = 5;
+const MAX_HIGHLIGHTS = 20;
+
+/**
+ * Parse a query such as `tool:execute_command "npm run" /migrat(e|ion)/i`.
+ * Bare words and "quoted phrases" match case-insensitively; /regex/ is used
+ * as written. Every matcher must occur somewhere in the task.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { matchers: [], filters: {} };
+
+  for (const match of query.matchAll(QUERY_TOKEN)) {
+    const [, field, fieldValue, phrase, pattern, flags, word] = match;
+
+    if (field && FILTER_FIELDS.has(field.toLowerCase())) {
+      parsed.filters[field.toLowerCase() as keyof ParsedQuery['filters']] = fieldValue.replace(/^"|"$/g, '');
+    } else if (pattern !== undefined) {
+      if (pattern.length > MAX_PATTERN_LENGTH) {
+        throw new QueryError(`Regular expressions are limited to ${MAX_PATTERN_LENGTH} characters`);
+      }
+      try {
+        parsed.matchers.push({ kind: 'regex', value: new RegExp(pattern.replace(/\\\//g, '/'), flags.replace('g', '') + 'g') });
+      } catch {
+        throw new QueryError(`Invalid regular expression: /${pattern}/`);
+      }
+    } else {
+      const text = phrase ?? word ?? match[0];
+      if (text) parsed.matchers.push({ kind: 'text', value: text.toLowerCase() });
+    }
+  }
+
+  return parsed;
+}
+
+function blockToText(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+    case 'reasoning':
+      return block.text || '';
+    case 'tool_use':
+      return getToolInputText(block.input);
+    case 'tool_result':
+      if (typeof block.content === 'string') return block.content;
+      if (Array.isArray(block.content)) {
+        return block.content
+          .filter((part) => part.type === 'text' && part.text)
+          .map((part) => part.text)
+          .join('\n');
+      }
+      return '';
+    default:
+      return '';
+  }
+}
+
+export function extractDocuments(conversation: ApiMessage[]): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  const toolNames = new Map<string, string>();
+
+  conversation.forEach((message, messageIndex) => {
+    const content: ContentBlock[] = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : Array.isArray(message.content) ? message.content : [];
+
+    content.forEach((block, blockIndex) => {
+      if (block.type === 'tool_use' && block.id && block.name) {
+        toolNames.set(block.id, block.name);
+      }
+
+      const text = blockToText(block);
+      if (!text) return;
+
+      documents.push({
+        messageIndex,
+        blockIndex,
+        role: message.role,
+        type: block.type,
+        tool: block.type === 'tool_use'
+          ? block.name ?? null
+          : block.type === 'tool_result' ? toolNames.get(block.tool_use_id ?? '') ?? null : null,
+        text,
+        lowerText: text.toLowerCase()
+      });
+    });
+  });
+
+  return documents;
+}
+
+/** Ranges found by each regex matcher of a query, per document, indexed like its matchers. */
+type RegexMatches = Map<SearchDocument, [number, number][][]>;
+
+function findMatches(document: SearchDocument, matcher: Matcher, index: number, regexMatches: RegexMatches): [number, number][] {
+  if (matcher.kind === 'regex') return regexMatches.get(document)?.[index] ?? [];
+
+  const ranges: [number, number][] = [];
+  let from = 0;
+  while (ranges.length < MAX_HIGHLIGHTS) {
+    const found = document.lowerText.indexOf(matcher.value, from);
+    if (found === -1) break;
+    ranges.push([found, found + matcher.value.length]);
+    from = found + matcher.value.length;
+  }
+  return ranges;
+}
+
+/** Run the query's regexes over every document at once, in a worker with a time limit. */
+async function matchRegexes(documents: SearchDocument[], query: ParsedQuery): Promise<RegexMatches> {
+  const regexMatchers = query.matchers.flatMap((matcher, index) => (matcher.kind === 'regex' ? [{ matcher, index }] : []));
+  const matches: RegexMatches = new Map();
+  if (regexMatchers.length === 0 || documents.length === 0) return matches;
+
+  const found = await matchInWorker(
+    regexMatchers.map(({ matcher }) => ({ source: matcher.value.source, flags: matcher.value.flags })),
+    // Long tool output is only matched by regex up to a point
+    documents.map((document) => document.text.slice(0, MAX_REGEX_SCAN_LENGTH)),
+    MAX_HIGHLIGHTS,
+    REGEX_TIMEOUT_MS
+  );
+  if (!found) throw new QueryError('Regular expression took too long, try a simpler pattern');
+
+  documents.forEach((document, i) => {
+    const ranges: [number, number][][] = [];
+    regexMatchers.forEach(({ index }, j) => {
+      ranges[index] = found[i][j];
+    });
+    matches.set(document, ranges);
+  });
+  return matches;
+}
+
+function makeHit(document: SearchDocument, ranges: [number, number][]): SearchHit {
+  ranges.sort((a, b) => a[0] - b[0]);
+  const start = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const end = Math.min(document.text.length, ranges[0][1] + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < document.text.length ? '…' : '';
+  const snippet = prefix + document.text.slice(start, end).replace(/\s/g, ' ') + suffix;
+  const offset = prefix.length - start;
+
+  return {
+    messageIndex: document.messageIndex,
+    blockIndex: document.blockIndex,
+    role: document.role,
+    type: document.type,
+    tool: document.tool,
+    snippet,
+    highlights: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + offset, to + offset])
+  };
+}
+
+function matchesFilters(document: SearchDocument, filters: ParsedQuery['filters']): boolean {
+  if (filters.role && document.role !== filters.role) return false;
+  if (filters.type && document.type !== filters.type) return false;
+  if (filters.tool && document.tool !== filters.tool) return false;
+  return true;
+}
+
+function searchTask(
+  task: TaskInfo,
+  candidates: SearchDocument[],
+  query: ParsedQuery,
+  regexMatches: RegexMatches
+): SearchResult | null {
+  if (candidates.length === 0) return null;
+
+  // Filter-only queries list every block that passes the filters
+  if (query.matchers.length === 0) {
+    return {
+      ...task,
+      score: candidates.length,
+      hitCount: candidates.length,
+      hits: candidates.slice(0, MAX_HITS_PER_TASK).map((document) => ({
+        ...makeHit(document, [[0, 0]]),
+        highlights: []
+      }))
+    };
+  }
+
+  const counts = query.matchers.map(() => 0);
+  const hits: SearchHit[] = [];
+  let hitCount = 0;
+  let score = 0;
+
+  for (const document of candidates) {
+    const ranges: [number, number][] = [];
+    query.matchers.forEach((matcher, i) => {
+      const found = findMatches(document, matcher, i, regexMatches);
+      counts[i] += found.length;
+      ranges.push(...found);
+    });
+    if (ranges.length === 0) continue;
+
+    hitCount++;
+    // The opening task description is the strongest signal of what a task is about
+    score += Math.log(1 + ranges.length) * (document.messageIndex === 0 ? 2 : 1);
+    if (hits.length < MAX_HITS_PER_TASK) hits.push(makeHit(document, ranges));
+  }
+
+  if (counts.some((count) => count === 0)) return null;
+
+  return { ...task, score, hitCount, hits };
+}
+
+class SearchIndex {
+  // Insertion order doubles as recency, oldest first
+  private tasks = new Map<string, IndexedDocuments>();
+  private cachedChars = 0;
+
+  constructor(private readonly tasksPath: string) {}
+
+  private forget(id: string) {
+    const entry = this.tasks.get(id);
+    if (!entry) return;
+    this.cachedChars -= entry.size;
+    this.tasks.delete(id);
+  }
+
+  private remember(id: string, entry: IndexedDocuments) {
+    this.forget(id);
+    this.tasks.set(id, entry);
+    this.cachedChars += entry.size;
+    for (const oldest of this.tasks.keys()) {
+      if (this.cachedChars <= MAX_CACHED_CHARS || oldest === id) break;
+      this.forget(oldest);
+    }
+  }
+
+  private async getDocuments(task: TaskInfo): Promise<SearchDocument[]> {
+    const cached = this.tasks.get(task.id);
+    if (cached && cached.timestamp === task.timestamp) {
+      this.remember(task.id, cached);
+      return cached.documents;
+    }
+
+    try {
+      const { apiConversation } = await readConversation(this.tasksPath, task.id);
+      const documents = extractDocuments(expandXmlToolCalls(apiConversation));
+      const size = documents.reduce((sum, document) => sum + document.text.length, 0);
+      this.remember(task.id, { timestamp: task.timestamp, documents, size });
+      return documents;
+    } catch {
+      return cached?.documents ?? [];
+    }
+  }
+
+  /** Every matching task, best first. */
+  async search(query: ParsedQuery): Promise<SearchResult[]> {
+    const tasks = await getTaskIndex(this.tasksPath).refresh();
+    const live = new Set(tasks.map((task) => task.id));
+    for (const id of this.tasks.keys()) {
+      if (!live.has(id)) this.forget(id);
+    }
+
+    const scanned: { task: TaskInfo; candidates: SearchDocument[] }[] = [];
+    for (const task of tasks) {
+      if (query.filters.task && !task.id.startsWith(query.filters.task)) continue;
+      const candidates = (await this.getDocuments(task)).filter((document) => matchesFilters(document, query.filters));
+      if (candidates.length > 0) scanned.push({ task, candidates });
+    }
+
+    const regexMatches = await matchRegexes(scanned.flatMap(({ candidates }) => candidates), query);
+    const results = scanned.flatMap(({ task, candidates }) => searchTask(task, candidates, query, regexMatches) ?? []);
+
+    return results.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+  }
+}
+
+const searchIndexes = new Map<string, SearchIndex>();
+
+export function getSearchIndex(tasksPath: string): SearchIndex {
+  let index = searchIndexes.get(tasksPath);
+  if (!index) {
+    index = new SearchIndex(tasksPath);
+    searchIndexes.set(tasksPath, index);
+  }
+  return index;
+}
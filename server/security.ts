@@ -0,0 +1,63 @@
+import path from 'path';
+import crypto from 'crypto';
+import type { RequestHandler } from 'express';
+import { isLoopbackHost } from './config.js';
+
+// Roo task ids are UUIDs; allow a conservative superset and nothing path-like
+const TASK_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Resolve a task directory from an untrusted id, or null if the id is
+ * malformed or would resolve outside the tasks directory.
+ */
+export function resolveTaskDir(tasksPath: string, id: string): string | null {
+  if (!TASK_ID_PATTERN.test(id)) return null;
+
+  const root = path.resolve(tasksPath);
+  const resolved = path.resolve(root, id);
+  if (path.dirname(resolved) !== root) return null;
+
+  return resolved;
+}
+
+export function isValidTaskId(tasksPath: string, id: string): boolean {
+  return resolveTaskDir(tasksPath, id) !== null;
+}
+
+function tokensMatch(expected: string, provided: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Require `Authorization: Bearer <token>` when a token is configured.
+ * EventSource cannot set headers, so a `token` query parameter is accepted too.
+ */
+export function requireToken(token: string | null): RequestHandler {
+  return (req, res, next) => {
+    if (!token) return next();
+
+    const header = req.headers.authorization;
+    const provided = header?.startsWith('Bearer ')
+      ? header.slice('Bearer '.length)
+      : typeof req.query.token === 'string' ? req.query.token : null;
+
+    if (provided && tokensMatch(token, provided)) return next();
+    res.status(401).json({ error: 'Unauthorized' });
+  };
+}
+
+/**
+ * When bound to loopback, reject requests whose Host header names anything
+ * else, so a DNS-rebinding page cannot reach the API through the browser.
+ */
+export function requireLoopbackHost(bindHost: string): RequestHandler {
+  return (req, res, next) => {
+    if (!isLoopbackHost(bindHost)) return next();
+
+    const hostname = (req.headers.host || '').replace(/:\d+$/, '').replace(/^\[|\]$/g, '');
+    if (isLoopbackHost(hostname)) return next();
+    res.status(403).json({ error: 'Forbidden host' });
+  };
+}
@@ -0,0 +1,291 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { ALL_SOURCES, ConfigError, createSource, type CustomSource } from './config.js';
+import { getDataDir, readJsonFile, writeJsonFile } from './storage.js';
+import { resolveTaskDir } from './security.js';
+
+/**
+ * Where a source came from: found on this machine, given in the config
+ * file or on the command line, or added from the app and kept in sources.json.
+ */
+export type SourceOrigin = 'discovered' | 'config' | 'saved';
+
+export interface TaskSource {
+  id: string;
+  label: string;
+  editor: string;
+  channel: string;
+  path: string;
+  origin: SourceOrigin;
+}
+
+interface SavedSourcesFile {
+  version: number;
+  sources: CustomSource[];
+}
+
+export class SourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceError';
+  }
+}
+
+const SAVED_SOURCES_VERSION = 1;
+
+interface EditorInfo {
+  slug: string;
+  label: string;
+  dataDir: string;
+  serverDir: string;
+}
+
+interface ExtensionInfo {
+  channel: string;
+  label: string;
+  extensionId: string;
+}
+
+const EDITORS: EditorInfo[] = [
+  { slug: 'code', label: 'VS Code', dataDir: 'Code', serverDir: '.vscode-server' },
+  { slug: 'insiders', label: 'VS Code Insiders', dataDir: 'Code - Insiders', serverDir: '.vscode-server-insiders' },
+  { slug: 'vscodium', label: 'VSCodium', dataDir: 'VSCodium', serverDir: '.vscodium-server' },
+  { slug: 'cursor', label: 'Cursor', dataDir: 'Cursor', serverDir: '.cursor-server' },
+  { slug: 'windsurf', label: 'Windsurf', dataDir: 'Windsurf', serverDir: '.windsurf-server' }
+];
+
+const EXTENSIONS: ExtensionInfo[] = [
+  { channel: 'nightly', label: 'Nightly', extensionId: 'rooveterinaryinc.roo-code-nightly' },
+  { channel: 'production', label: 'Production', extensionId: 'rooveterinaryinc.roo-cline' }
+];
+
+function getUserDataRoots(): string[] {
+  const homeDir = os.homedir();
+
+  switch (process.platform) {
+    case 'darwin':
+      return [path.join(homeDir, 'Library/Application Support')];
+    case 'win32':
+      return [process.env.APPDATA || path.join(homeDir, 'AppData/Roaming')];
+    default:
+      return [process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config')];
+  }
+}
+
+interface Candidate {
+  editor: EditorInfo;
+  remote: boolean;
+  globalStorage: string;
+}
+
+function getCandidates(): Candidate[] {
+  const homeDir = os.homedir();
+  const candidates: Candidate[] = [];
+
+  for (const editor of EDITORS) {
+    for (const root of getUserDataRoots()) {
+      candidates.push({
+        editor,
+        remote: false,
+        globalStorage: path.join(root, editor.dataDir, 'User/globalStorage')
+      });
+    }
+    // Remote-SSH / WSL hosts keep extension storage under the server install
+    candidates.push({
+      editor,
+      remote: true,
+      globalStorage: path.join(homeDir, editor.serverDir, 'data/User/globalStorage')
+    });
+  }
+
+  return candidates;
+}
+
+// Stock VS Code keeps the plain channel name so existing ids stay stable
+function getSourceId(editor: EditorInfo, remote: boolean, channel: string): string {
+  const parts = [];
+  if (editor.slug !== 'code') parts.push(editor.slug);
+  if (remote) parts.push('remote');
+  parts.push(channel);
+  return parts.join('-');
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(dirPath);
+    return stat.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export async function discoverSources(): Promise<TaskSource[]> {
+  const sources: TaskSource[] = [];
+  const seen = new Set<string>();
+
+  for (const candidate of getCandidates()) {
+    for (const extension of EXTENSIONS) {
+      const tasksPath = path.join(candidate.globalStorage, extension.extensionId, 'tasks');
+      if (seen.has(tasksPath) || !(await isDirectory(tasksPath))) continue;
+      seen.add(tasksPath);
+
+      const editorLabel = candidate.remote ? `${candidate.editor.label} (Remote)` : candidate.editor.label;
+      sources.push({
+        id: getSourceId(candidate.editor, candidate.remote, extension.channel),
+        label: candidate.editor.slug === 'code' && !candidate.remote
+          ? extension.label
+          : `${extension.label} · ${editorLabel}`,
+        editor: editorLabel,
+        channel: extension.channel,
+        path: tasksPath,
+        origin: 'discovered'
+      });
+    }
+  }
+
+  return sources;
+}
+
+function toTaskSource(source: CustomSource, origin: SourceOrigin): TaskSource {
+  return {
+    id: source.name,
+    label: source.name,
+    editor: 'Custom',
+    channel: 'custom',
+    path: source.path,
+    origin
+  };
+}
+
+let customSources: TaskSource[] = [];
+let cachedSources: TaskSource[] | null = null;
+
+// Sources given on the command line or in the config file come first
+export function setCustomSources(sources: CustomSource[]) {
+  customSources = sources.map((source) => toTaskSource(source, 'config'));
+  cachedSources = null;
+}
+
+// Task folders added from the app, such as an export from a colleague
+let savedSources: CustomSource[] = [];
+let loadingSources: Promise<void> | null = null;
+let savingSources: Promise<void> = Promise.resolve();
+
+function getSavedSourcesPath(): string {
+  return path.join(getDataDir(), 'sources.json');
+}
+
+function loadSavedSources(): Promise<void> {
+  if (!loadingSources) {
+    loadingSources = readJsonFile<SavedSourcesFile>(getSavedSourcesPath()).then((file) => {
+      if (file && file.version === SAVED_SOURCES_VERSION) savedSources = file.sources;
+    });
+  }
+  return loadingSources;
+}
+
+// Callers change the list synchronously after their last await, so concurrent requests never lose an update
+function saveSavedSources(next: CustomSource[]) {
+  savedSources = next;
+  cachedSources = null;
+  const file: SavedSourcesFile = { version: SAVED_SOURCES_VERSION, sources: next };
+  savingSources = savingSources
+    .then(() => writeJsonFile(getSavedSourcesPath(), file))
+    .catch((error) => console.error('Failed to save sources:', error));
+}
+
+/** Validate the body of a new source; relative paths are taken from the home directory. */
+export function parseSourceInput(body: unknown): CustomSource {
+  if (!body || typeof body !== 'object') {
+    throw new SourceError('Expected a JSON object');
+  }
+  const fields = body as Record<string, unknown>;
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  const sourcePath = typeof fields.path === 'string' ? fields.path.trim() : '';
+  if (!name || !sourcePath) throw new SourceError('A source needs a name and a path');
+  try {
+    return createSource(name, sourcePath.replace(/^~(?=$|[\\/])/, os.homedir()), os.homedir());
+  } catch (error) {
+    if (error instanceof ConfigError) throw new SourceError(error.message);
+    throw error;
+  }
+}
+
+export async function addSavedSource(input: CustomSource): Promise<TaskSource> {
+  if (!(await isDirectory(input.path))) {
+    throw new SourceError(`Not a directory: ${input.path}`);
+  }
+  // Folders saved by a concurrent request since the scan are checked as well
+  const scanned = await getSources(true);
+  const existing = [...scanned, ...savedSources.map((source) => toTaskSource(source, 'saved'))];
+  if (existing.some((source) => source.id === input.name)) {
+    throw new SourceError(`A source named "${input.name}" already exists`);
+  }
+  const duplicate = existing.find((source) => source.path === input.path);
+  if (duplicate) {
+    throw new SourceError(`That folder is already the source "${duplicate.label}"`);
+  }
+  saveSavedSources([...savedSources, input]);
+  return toTaskSource(input, 'saved');
+}
+
+/** Only sources added from the app can be removed; the rest come from the machine or config. */
+export async function removeSavedSource(id: string): Promise<boolean> {
+  await loadSavedSources();
+  const remaining = savedSources.filter((source) => source.name !== id);
+  if (remaining.length === savedSources.length) return false;
+  saveSavedSources(remaining);
+  return true;
+}
+
+export async function getSources(refresh = false): Promise<TaskSource[]> {
+  if (!cachedSources || refresh) {
+    await loadSavedSources();
+    const discovered = await discoverSources();
+    const saved = savedSources.map((source) => toTaskSource(source, 'saved'));
+    const seen = new Set<string>();
+    cachedSources = [...customSources, ...saved, ...discovered].filter((source) => {
+      if (seen.has(source.id)) return false;
+      seen.add(source.id);
+      return true;
+    });
+  }
+  return cachedSources;
+}
+
+// Unknown ids rescan the machine at most this often, however many requests carry them
+const MISS_RESCAN_MS = 30000;
+let lastMissRescan = 0;
+
+async function findSource(id: string): Promise<TaskSource | undefined> {
+  const source = (await getSources()).find((s) => s.id === id);
+  if (source || Date.now() - lastMissRescan < MISS_RESCAN_MS) return source;
+  // The source may have been created since the last scan
+  lastMissRescan = Date.now();
+  return (await getSources(true)).find((s) => s.id === id);
+}
+
+export async function getSourcePath(id: string): Promise<string | undefined> {
+  return (await findSource(id))?.path;
+}
+
+/** The sources an id covers: every source for the merged view, otherwise just that one. */
+export async function resolveSources(id: string): Promise<TaskSource[]> {
+  if (id === ALL_SOURCES) return getSources();
+  const source = await findSource(id);
+  return source ? [source] : [];
+}
+
+/**
+ * The tasks directory holding a task. The merged view has no directory of
+ * its own, so each source is checked in turn and the first to have it wins.
+ */
+export async function getTaskSourcePath(id: string, taskId: string): Promise<string | undefined> {
+  if (id !== ALL_SOURCES) return getSourcePath(id);
+  for (const source of await getSources()) {
+    const taskDir = resolveTaskDir(source.path, taskId);
+    if (taskDir && (await isDirectory(taskDir))) return source.path;
+  }
+  return undefined;
+}
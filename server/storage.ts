@@ -0,0 +1,24 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+
+export function getDataDir(): string {
+  return process.env.ROOVERSATION_HOME || path.join(os.homedir(), '.rooversation');
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(content) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Write to a temp file and rename so a crash never leaves a truncated file behind
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import type { ApiMessage, ContentBlock, UiMessage } from '../shared/history.js';
+
+export interface Delegation {
+  toolUseId: string;
+  ts: number;
+  key: string;
+  /** Id of the subtask, when the parent's result message names it */
+  childId: string | null;
+  /** Key of the result the subtask reported back, once it has completed */
+  resultKey: string | null;
+  resultTs: number | null;
+}
+
+export interface SubtaskLink {
+  toolUseId: string;
+  taskId: string;
+}
+
+interface LinkableTask {
+  id: string;
+  createdAt: number;
+  taskKey: string | null;
+  resultKey: string | null;
+  delegations: Delegation[];
+  parentId: string | null;
+  subtasks: SubtaskLink[];
+}
+
+// Roo may stamp the child a little before the parent's message is persisted
+const CLOCK_SLACK_MS = 5000;
+
+// What a finished subtask hands back to its parent: native tool calls get a
+// tool_result naming the child, XML tool calls a text message
+const NATIVE_RESULT_PATTERN = /^Subtask (\S+) completed\.?\s*(?:Result:)?\s*([\s\S]*)$/;
+const XML_RESULT_PATTERN = /^\[new_task completed\] Result:\s*([\s\S]*)$/;
+
+export function getTextKey(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return crypto.createHash('sha1').update(normalized).digest('hex').slice(0, 16);
+}
+
+/** Key of the full `<task>` text a subtask was started with. */
+export function getTaskKey(conversation: ApiMessage[]): string | null {
+  const content = conversation[0]?.content;
+  if (!Array.isArray(content)) return null;
+
+  for (const block of content) {
+    if (block.type !== 'text' || !block.text) continue;
+    const taskMatch = block.text.match(/<task>([\s\S]*?)<\/task>/);
+    if (taskMatch) return getTextKey(taskMatch[1]);
+  }
+  return null;
+}
+
+function getBlockText(block: ContentBlock): string {
+  if (typeof block.content === 'string') return block.content;
+  if (Array.isArray(block.content)) {
+    return block.content.map((part) => (part.type === 'text' ? part.text ?? '' : '')).join('\n');
+  }
+  return block.text ?? '';
+}
+
+/** Key of the result a task finished with, matching what its parent receives. */
+export function getResultKey(conversation: ApiMessage[], uiMessages: UiMessage[] | null): string | null {
+  const completion = [...(uiMessages ?? [])].reverse().find((m) => m.say === 'completion_result' && m.text);
+  if (completion?.text) return getTextKey(completion.text);
+
+  for (const message of [...conversation].reverse()) {
+    if (message.role !== 'assistant' || !Array.isArray(message.content)) continue;
+    const call = message.content.find((block) => block.type === 'tool_use' && block.name === 'attempt_completion');
+    if (typeof call?.input?.result === 'string') return getTextKey(call.input.result);
+  }
+  return null;
+}
+
+/**
+ * Every `new_task` call of a conversation, along with the result the
+ * subtask reported back if it has finished. Calls are read with XML tool
+ * calls expanded, results from the raw history, where expansion cannot
+ * have folded an XML result into the call's tool_result.
+ */
+export function getDelegations(conversation: ApiMessage[], toolConversation: ApiMessage[]): Delegation[] {
+  const delegations: Delegation[] = [];
+  const byToolUse = new Map<string, Delegation>();
+
+  conversation.forEach((message, messageIndex) => {
+    if (message.role === 'assistant') {
+      const content = toolConversation[messageIndex]?.content;
+      if (!Array.isArray(content)) return;
+      for (const block of content) {
+        if (block.type !== 'tool_use' || block.name !== 'new_task') continue;
+        const text = block.input?.message;
+        if (typeof text !== 'string' || !block.id) continue;
+        const delegation: Delegation = {
+          toolUseId: block.id,
+          ts: message.ts,
+          key: getTextKey(text),
+          childId: null,
+          resultKey: null,
+          resultTs: null
+        };
+        delegations.push(delegation);
+        byToolUse.set(block.id, delegation);
+      }
+      return;
+    }
+
+    if (!Array.isArray(message.content)) return;
+    for (const block of message.content) {
+      if (block.type !== 'text' && block.type !== 'tool_result') continue;
+      const text = getBlockText(block).trim();
+      const native = text.match(NATIVE_RESULT_PATTERN);
+      const xml = native ? null : text.match(XML_RESULT_PATTERN);
+      if (!native && !xml) continue;
+
+      // A result answers its own call, or else the oldest call still waiting for one
+      const delegation = (block.tool_use_id ? byToolUse.get(block.tool_use_id) : undefined)
+        ?? delegations.find((candidate) => candidate.resultKey === null);
+      if (!delegation || delegation.resultKey !== null) continue;
+      delegation.childId = native ? native[1] : null;
+      delegation.resultKey = getTextKey(native ? native[2] : xml![1]);
+      delegation.resultTs = message.ts;
+    }
+  });
+
+  return delegations;
+}
+
+/**
+ * Link subtasks to the `new_task` call that spawned them. A result naming
+ * the child links it directly. Otherwise the child's task text must equal
+ * the delegated message and, once the subtask has reported back, its
+ * completion result must equal what the parent received. Among several
+ * candidates the one created closest after the call wins.
+ */
+export function linkSubtasks(tasks: LinkableTask[]) {
+  const byId = new Map<string, LinkableTask>();
+  const byKey = new Map<string, LinkableTask[]>();
+  for (const task of tasks) {
+    task.parentId = null;
+    task.subtasks = [];
+    byId.set(task.id, task);
+    if (!task.taskKey) continue;
+    const candidates = byKey.get(task.taskKey) ?? [];
+    candidates.push(task);
+    byKey.set(task.taskKey, candidates);
+  }
+
+  const link = (parent: LinkableTask, delegation: Delegation, child: LinkableTask) => {
+    child.parentId = parent.id;
+    parent.subtasks.push({ toolUseId: delegation.toolUseId, taskId: child.id });
+  };
+
+  const findCandidate = (parent: LinkableTask, delegation: Delegation, requireResult: boolean) => {
+    let best: LinkableTask | null = null;
+    for (const candidate of byKey.get(delegation.key) ?? []) {
+      if (candidate === parent || candidate.parentId) continue;
+      if (candidate.createdAt < delegation.ts - CLOCK_SLACK_MS) continue;
+      if (requireResult && candidate.resultKey !== delegation.resultKey) continue;
+      // A subtask cannot start after its result was handed back
+      if (delegation.resultTs !== null && candidate.createdAt > delegation.resultTs + CLOCK_SLACK_MS) continue;
+      if (!best || candidate.createdAt < best.createdAt) best = candidate;
+    }
+    return best;
+  };
+
+  const pending = tasks
+    .flatMap((parent) => parent.delegations.map((delegation) => ({ parent, delegation })))
+    .sort((a, b) => a.delegation.ts - b.delegation.ts);
+
+  // Strongest evidence first, so weaker matches cannot claim a child another call proves is its own
+  const passes: ((parent: LinkableTask, delegation: Delegation) => LinkableTask | null)[] = [
+    (parent, delegation) => {
+      const child = delegation.childId ? byId.get(delegation.childId) : undefined;
+      return child && child !== parent && !child.parentId ? child : null;
+    },
+    (parent, delegation) => (delegation.resultKey ? findCandidate(parent, delegation, true) : null),
+    (parent, delegation) => findCandidate(parent, delegation, false)
+  ];
+
+  for (const pass of passes) {
+    for (let i = 0; i < pending.length; i++) {
+      const { parent, delegation } = pending[i];
+      const child = pass(parent, delegation);
+      if (!child) continue;
+      link(parent, delegation, child);
+      pending.splice(i--, 1);
+    }
+  }
+
+  // Links were found out of order across passes; keep each parent's in call order
+  for (const task of tasks) {
+    const order = new Map(task.delegations.map((delegation, index) => [delegation.toolUseId, index]));
+    task.subtasks.sort((a, b) => (order.get(a.toolUseId) ?? 0) - (order.get(b.toolUseId) ?? 0));
+  }
+}
@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { getDataDir, readJsonFile, writeJsonFile } from './storage.js';
+import { getConversationPaths, readConversation } from './conversation.js';
+import { computeTaskStats, type TaskStats } from './taskStats.js';
+import { getDelegations, getResultKey, getTaskKey, linkSubtasks, type Delegation, type SubtaskLink } from './subtasks.js';
+import { computeTaskAnalytics, type TaskAnalytics } from './analytics.js';
+import { expandXmlToolCalls } from '../shared/xmlTools.js';
+import type { ApiMessage } from '../shared/history.js';
+
+// Bump whenever the shape of IndexedTask or the extraction logic changes
+const INDEX_VERSION = 9;
+
+export interface TaskInfo extends TaskStats {
+  id: string;
+  timestamp: number;
+  firstMessage: string;
+  size: number;
+  parentId: string | null;
+  subtasks: SubtaskLink[];
+  workspace: string | null;
+}
+
+export interface IndexedTask extends TaskInfo {
+  signature: string;
+  taskKey: string | null;
+  resultKey: string | null;
+  delegations: Delegation[];
+  analytics: TaskAnalytics;
+}
+
+interface IndexFile {
+  version: number;
+  tasksPath: string;
+  tasks: Record<string, IndexedTask>;
+}
+
+export function getFirstMessage(conversation: ApiMessage[]): string {
+  let firstMessage = '';
+  const content = conversation[0]?.content;
+  if (Array.isArray(content)) {
+    for (const block of content) {
+      if (block.type === 'text' && block.text) {
+        const taskMatch = block.text.match(/<task>([\s\S]*?)<\/task>/);
+        if (taskMatch) {
+          firstMessage = taskMatch[1].trim().slice(0, 200);
+        } else if (!block.text.includes('<environment_details>')) {
+          firstMessage = block.text.slice(0, 200);
+        }
+        if (firstMessage) break;
+      }
+    }
+  }
+  return firstMessage || 'No message preview';
+}
+
+export class TaskIndex {
+  private tasks = new Map<string, IndexedTask>();
+  private loaded = false;
+  private refreshing: Promise<TaskInfo[]> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private readonly indexPath: string;
+
+  constructor(private readonly tasksPath: string) {
+    const hash = crypto.createHash('sha1').update(tasksPath).digest('hex').slice(0, 16);
+    this.indexPath = path.join(getDataDir(), 'index', `${hash}.json`);
+  }
+
+  /** Full index entries, including the internal fields not sent to clients. */
+  async entries(): Promise<IndexedTask[]> {
+    await this.refresh();
+    return Array.from(this.tasks.values());
+  }
+
+  // Concurrent callers share a single scan of the tasks directory
+  refresh(): Promise<TaskInfo[]> {
+    if (!this.refreshing) {
+      this.refreshing = this.scan().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async load() {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const file = await readJsonFile<IndexFile>(this.indexPath);
+    if (file && file.version === INDEX_VERSION && file.tasksPath === this.tasksPath) {
+      this.tasks = new Map(Object.entries(file.tasks));
+    }
+  }
+
+  private save() {
+    const file: IndexFile = {
+      version: INDEX_VERSION,
+      tasksPath: this.tasksPath,
+      tasks: Object.fromEntries(this.tasks)
+    };
+    this.saving = this.saving
+      .then(() => writeJsonFile(this.indexPath, file))
+      .catch((error) => console.error('Failed to save task index:', error));
+  }
+
+  private async scan(): Promise<TaskInfo[]> {
+    await this.load();
+
+    const dirs = await fs.readdir(this.tasksPath, { withFileTypes: true });
+    const seen = new Set<string>();
+    let dirty = false;
+
+    for (const dir of dirs) {
+      if (!dir.isDirectory()) continue;
+
+      const paths = getConversationPaths(this.tasksPath, dir.name);
+
+      try {
+        const apiStat = await fs.stat(paths.api);
+        const uiStat = await fs.stat(paths.ui).catch(() => null);
+        seen.add(dir.name);
+
+        const signature = [apiStat.mtimeMs, apiStat.size, uiStat?.mtimeMs ?? 0, uiStat?.size ?? 0].join('-');
+        if (this.tasks.get(dir.name)?.signature === signature) continue;
+
+        const { apiConversation, uiMessages } = await readConversation(this.tasksPath, dir.name);
+        const timestamp = Math.max(apiStat.mtimeMs, uiStat?.mtimeMs ?? 0);
+        const toolConversation = expandXmlToolCalls(apiConversation);
+        const analytics = computeTaskAnalytics(toolConversation, uiMessages);
+
+        this.tasks.set(dir.name, {
+          id: dir.name,
+          timestamp,
+          firstMessage: getFirstMessage(apiConversation),
+          size: apiStat.size + (uiStat?.size ?? 0),
+          parentId: null,
+          subtasks: [],
+          signature,
+          taskKey: getTaskKey(apiConversation),
+          resultKey: getResultKey(toolConversation, uiMessages),
+          delegations: getDelegations(apiConversation, toolConversation),
+          workspace: analytics.workspace,
+          analytics,
+          ...computeTaskStats(apiConversation, uiMessages, timestamp)
+        });
+        dirty = true;
+      } catch {
+        // Skip if conversation file doesn't exist or is invalid
+      }
+    }
+
+    for (const id of this.tasks.keys()) {
+      if (!seen.has(id)) {
+        this.tasks.delete(id);
+        dirty = true;
+      }
+    }
+
+    if (dirty) {
+      linkSubtasks(Array.from(this.tasks.values()));
+      this.save();
+    }
+
+    return Array.from(this.tasks.values(), ({ signature: _s, taskKey: _k, resultKey: _r, delegations: _d, analytics: _a, ...task }) => task)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+}
+
+const indexes = new Map<string, TaskIndex>();
+
+export function getTaskIndex(tasksPath: string): TaskIndex {
+  let index = indexes.get(tasksPath);
+  if (!index) {
+    index = new TaskIndex(tasksPath);
+    indexes.set(tasksPath, index);
+  }
+  return index;
+}
@@ -0,0 +1,248 @@
+import path from 'path';
+import crypto from 'crypto';
+import { getDataDir, readJsonFile, writeJsonFile } from './storage.js';
+
+const STORE_VERSION = 1;
+
+/** User-assigned organisation for one task; Roo itself knows nothing of it. */
+export interface TaskMeta {
+  tags: string[];
+  pinned: boolean;
+}
+
+export interface TaskFilter {
+  text: string;
+  tags: string[];
+  statuses: string[];
+  workspace: string | null;
+  /** Only tasks active within this many days, or null for any time */
+  days: number | null;
+  /** First and last day of activity as YYYY-MM-DD, inclusive, or null for no bound */
+  from: string | null;
+  to: string | null;
+  pinnedOnly: boolean;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filter: TaskFilter;
+}
+
+interface MetaFile {
+  version: number;
+  tasksPath: string;
+  tasks: Record<string, TaskMeta>;
+}
+
+interface ViewsFile {
+  version: number;
+  views: SavedView[];
+}
+
+export class TaskMetaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskMetaError';
+  }
+}
+
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS = 20;
+const MAX_NAME_LENGTH = 80;
+const STATUSES = ['active', 'completed', 'waiting', 'error', 'interrupted'];
+
+function parseTags(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== 'string')) {
+    throw new TaskMetaError('tags must be an array of strings');
+  }
+  const tags = Array.from(new Set(value.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean)));
+  if (tags.length > MAX_TAGS) throw new TaskMetaError(`A task can have at most ${MAX_TAGS} tags`);
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    throw new TaskMetaError(`Tags must be at most ${MAX_TAG_LENGTH} characters`);
+  }
+  return tags.sort();
+}
+
+/** Validate an update to a task's tags and pin, either of which may be omitted. */
+export function parseMetaPatch(body: unknown): Partial<TaskMeta> {
+  if (!body || typeof body !== 'object') {
+    throw new TaskMetaError('Expected a JSON object');
+  }
+  const fields = body as Record<string, unknown>;
+  const patch: Partial<TaskMeta> = {};
+  if (fields.tags !== undefined) patch.tags = parseTags(fields.tags);
+  if (fields.pinned !== undefined) {
+    if (typeof fields.pinned !== 'boolean') throw new TaskMetaError('pinned must be a boolean');
+    patch.pinned = fields.pinned;
+  }
+  return patch;
+}
+
+function parseDate(value: unknown, field: string): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new TaskMetaError(`${field} must be a YYYY-MM-DD date or null`);
+  }
+  return value;
+}
+
+function parseFilter(value: unknown): TaskFilter {
+  if (!value || typeof value !== 'object') {
+    throw new TaskMetaError('filter must be an object');
+  }
+  const fields = value as Record<string, unknown>;
+  const statuses = fields.statuses ?? [];
+  if (!Array.isArray(statuses) || statuses.some((status) => !STATUSES.includes(status))) {
+    throw new TaskMetaError(`statuses must be a list of ${STATUSES.join(', ')}`);
+  }
+  const days = fields.days ?? null;
+  if (days !== null && (typeof days !== 'number' || !Number.isInteger(days) || days < 1)) {
+    throw new TaskMetaError('days must be a positive integer or null');
+  }
+  const from = parseDate(fields.from, 'from');
+  const to = parseDate(fields.to, 'to');
+  if (from && to && from > to) throw new TaskMetaError('from must not be after to');
+  const workspace = fields.workspace ?? null;
+  if (workspace !== null && typeof workspace !== 'string') {
+    throw new TaskMetaError('workspace must be a string or null');
+  }
+  return {
+    text: typeof fields.text === 'string' ? fields.text : '',
+    tags: parseTags(fields.tags ?? []),
+    statuses,
+    workspace,
+    days,
+    from,
+    to,
+    pinnedOnly: fields.pinnedOnly === true
+  };
+}
+
+/** Validate the body of a new saved view. */
+export function parseSavedView(body: unknown): Omit<SavedView, 'id'> {
+  if (!body || typeof body !== 'object') {
+    throw new TaskMetaError('Expected a JSON object');
+  }
+  const fields = body as Record<string, unknown>;
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  if (!name) throw new TaskMetaError('A saved view needs a name');
+  if (name.length > MAX_NAME_LENGTH) throw new TaskMetaError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  return { name, filter: parseFilter(fields.filter) };
+}
+
+/**
+ * Tags and pins for the tasks of one source, kept in the app's data
+ * directory beside the annotations rather than in Roo's task folders.
+ */
+export class TaskMetaStore {
+  private tasks = new Map<string, TaskMeta>();
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private readonly storePath: string;
+
+  constructor(private readonly tasksPath: string) {
+    const hash = crypto.createHash('sha1').update(tasksPath).digest('hex').slice(0, 16);
+    this.storePath = path.join(getDataDir(), 'meta', `${hash}.json`);
+  }
+
+  async all(): Promise<Record<string, TaskMeta>> {
+    await this.load();
+    return Object.fromEntries(this.tasks);
+  }
+
+  async update(taskId: string, patch: Partial<TaskMeta>): Promise<TaskMeta> {
+    await this.load();
+    const updated: TaskMeta = { tags: [], pinned: false, ...this.tasks.get(taskId), ...patch };
+    // Tasks with nothing set are dropped so the file only holds organised tasks
+    if (updated.tags.length > 0 || updated.pinned) this.tasks.set(taskId, updated);
+    else this.tasks.delete(taskId);
+    this.save();
+    return updated;
+  }
+
+  // Concurrent first requests share a single read of the store file
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = readJsonFile<MetaFile>(this.storePath).then((file) => {
+        if (file && file.version === STORE_VERSION && file.tasksPath === this.tasksPath) {
+          this.tasks = new Map(Object.entries(file.tasks));
+        }
+      });
+    }
+    return this.loading;
+  }
+
+  private save() {
+    const file: MetaFile = {
+      version: STORE_VERSION,
+      tasksPath: this.tasksPath,
+      tasks: Object.fromEntries(this.tasks)
+    };
+    this.saving = this.saving
+      .then(() => writeJsonFile(this.storePath, file))
+      .catch((error) => console.error('Failed to save task tags:', error));
+  }
+}
+
+const stores = new Map<string, TaskMetaStore>();
+
+export function getTaskMetaStore(tasksPath: string): TaskMetaStore {
+  let store = stores.get(tasksPath);
+  if (!store) {
+    store = new TaskMetaStore(tasksPath);
+    stores.set(tasksPath, store);
+  }
+  return store;
+}
+
+// Saved views filter whichever source is selected, so one file serves them all
+let views: SavedView[] = [];
+let loadingViews: Promise<void> | null = null;
+let savingViews: Promise<void> = Promise.resolve();
+
+function getViewsPath(): string {
+  return path.join(getDataDir(), 'views.json');
+}
+
+function loadViews(): Promise<void> {
+  if (!loadingViews) {
+    loadingViews = readJsonFile<ViewsFile>(getViewsPath()).then((file) => {
+      // Views saved before date ranges existed have no from or to
+      if (file && file.version === STORE_VERSION) {
+        views = file.views.map((view) => ({ ...view, filter: { ...view.filter, from: view.filter.from ?? null, to: view.filter.to ?? null } }));
+      }
+    });
+  }
+  return loadingViews;
+}
+
+// Callers change the list synchronously after their last await, so concurrent requests never lose an update
+function saveViews(next: SavedView[]) {
+  views = next;
+  const file: ViewsFile = { version: STORE_VERSION, views: next };
+  savingViews = savingViews
+    .then(() => writeJsonFile(getViewsPath(), file))
+    .catch((error) => console.error('Failed to save views:', error));
+}
+
+export async function getSavedViews(): Promise<SavedView[]> {
+  await loadViews();
+  return views;
+}
+
+/** Adds a view, replacing any existing view with the same name. */
+export async function addSavedView(input: Omit<SavedView, 'id'>): Promise<SavedView> {
+  await loadViews();
+  const view: SavedView = { id: crypto.randomUUID(), ...input };
+  saveViews([...views.filter((existing) => existing.name !== input.name), view]);
+  return view;
+}
+
+export async function removeSavedView(id: string): Promise<boolean> {
+  await loadViews();
+  const remaining = views.filter((view) => view.id !== id);
+  if (remaining.length === views.length) return false;
+  saveViews(remaining);
+  return true;
+}
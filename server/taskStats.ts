@@ -0,0 +1,126 @@
+import type { ApiMessage, UiMessage } from '../shared/history.js';
+
+export type TaskStatus = 'active' | 'completed' | 'waiting' | 'error' | 'interrupted';
+
+export interface TaskStats {
+  createdAt: number;
+  messageCount: number;
+  tokensIn: number;
+  tokensOut: number;
+  cacheReads: number;
+  cacheWrites: number;
+  cost: number;
+  durationMs: number;
+  status: TaskStatus;
+}
+
+// Asks that block the task until the user responds
+const WAITING_ASKS = new Set([
+  'followup',
+  'command',
+  'command_output',
+  'tool',
+  'use_mcp_server',
+  'browser_action_launch',
+  'auto_approval_max_req_reached'
+]);
+
+const ERROR_ASKS = new Set(['api_req_failed', 'mistake_limit_reached']);
+
+export interface ApiRequestInfo {
+  tokensIn?: number;
+  tokensOut?: number;
+  cacheReads?: number;
+  cacheWrites?: number;
+  cost?: number;
+}
+
+// Roo has written some of these as numeric strings, which must not be concatenated
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+export function parseApiRequest(message: UiMessage): ApiRequestInfo | null {
+  if (message?.say !== 'api_req_started' || typeof message.text !== 'string') return null;
+  let info: unknown;
+  try {
+    info = JSON.parse(message.text);
+  } catch {
+    return null;
+  }
+  if (!info || typeof info !== 'object') return null;
+
+  const fields = info as Record<string, unknown>;
+  return {
+    tokensIn: toNumber(fields.tokensIn),
+    tokensOut: toNumber(fields.tokensOut),
+    cacheReads: toNumber(fields.cacheReads),
+    cacheWrites: toNumber(fields.cacheWrites),
+    cost: toNumber(fields.cost)
+  };
+}
+
+export function getTaskStatus(uiMessages: UiMessage[]): TaskStatus {
+  // Partial messages are still streaming, so look past them
+  const last = [...uiMessages].reverse().find((m) => !m.partial) ?? uiMessages[uiMessages.length - 1];
+  if (!last) return 'active';
+
+  if (last.type === 'ask') {
+    const ask = last.ask ?? '';
+    if (ask === 'completion_result' || ask === 'resume_completed_task') return 'completed';
+    if (ask === 'resume_task') return 'interrupted';
+    if (ERROR_ASKS.has(ask)) return 'error';
+    if (WAITING_ASKS.has(ask)) return 'waiting';
+    return 'active';
+  }
+
+  if (last.say === 'completion_result') return 'completed';
+  if (last.say === 'error') return 'error';
+  return 'active';
+}
+
+export function computeTaskStats(
+  apiConversation: ApiMessage[],
+  uiMessages: UiMessage[] | null,
+  mtimeMs: number
+): TaskStats {
+  const stats: TaskStats = {
+    createdAt: mtimeMs,
+    messageCount: apiConversation.length,
+    tokensIn: 0,
+    tokensOut: 0,
+    cacheReads: 0,
+    cacheWrites: 0,
+    cost: 0,
+    durationMs: 0,
+    status: 'active'
+  };
+
+  let first = Infinity;
+  let last = -Infinity;
+  for (const message of [...apiConversation, ...(uiMessages ?? [])]) {
+    if (typeof message.ts !== 'number' || message.ts <= 0) continue;
+    first = Math.min(first, message.ts);
+    last = Math.max(last, message.ts);
+  }
+  if (first !== Infinity) {
+    stats.createdAt = first;
+    stats.durationMs = last - first;
+  }
+
+  if (uiMessages) {
+    for (const message of uiMessages) {
+      const request = parseApiRequest(message);
+      if (!request) continue;
+      stats.tokensIn += request.tokensIn ?? 0;
+      stats.tokensOut += request.tokensOut ?? 0;
+      stats.cacheReads += request.cacheReads ?? 0;
+      stats.cacheWrites += request.cacheWrites ?? 0;
+      stats.cost += request.cost ?? 0;
+    }
+    stats.status = getTaskStatus(uiMessages);
+  }
+
+  return stats;
+}
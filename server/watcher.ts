@@ -0,0 +1,73 @@
+import fs, { FSWatcher } from 'fs';
+import path from 'path';
+
+type ChangeListener = (taskId: string | null) => void;
+
+interface SourceWatcher {
+  watcher: FSWatcher | null;
+  listeners: Set<ChangeListener>;
+  timers: Map<string, NodeJS.Timeout>;
+}
+
+const DEBOUNCE_MS = 250;
+const ROOT_KEY = '';
+
+const watchers = new Map<string, SourceWatcher>();
+
+function emit(entry: SourceWatcher, key: string) {
+  clearTimeout(entry.timers.get(key));
+  entry.timers.set(key, setTimeout(() => {
+    entry.timers.delete(key);
+    for (const listener of entry.listeners) {
+      listener(key === ROOT_KEY ? null : key);
+    }
+  }, DEBOUNCE_MS));
+}
+
+function createWatcher(tasksPath: string, entry: SourceWatcher): FSWatcher {
+  const onChange = (_event: string, filename: string | Buffer | null) => {
+    if (!filename) {
+      emit(entry, ROOT_KEY);
+      return;
+    }
+    const [taskId, ...rest] = filename.toString().split(path.sep);
+    // Top-level entries are task directories being created or removed
+    if (rest.length === 0) emit(entry, ROOT_KEY);
+    emit(entry, taskId);
+  };
+
+  try {
+    return fs.watch(tasksPath, { recursive: true, persistent: false }, onChange);
+  } catch {
+    // Recursive watching is unavailable on some platforms/filesystems
+    return fs.watch(tasksPath, { persistent: false }, onChange);
+  }
+}
+
+/**
+ * Subscribe to changes under a tasks directory. The listener receives the id
+ * of the task that changed, or null when the set of tasks itself changed.
+ * Returns an unsubscribe function.
+ */
+export function watchTasks(tasksPath: string, listener: ChangeListener): () => void {
+  let entry = watchers.get(tasksPath);
+  if (!entry) {
+    entry = { watcher: null, listeners: new Set(), timers: new Map() };
+    entry.watcher = createWatcher(tasksPath, entry);
+    entry.watcher.on('error', (error) => console.error(`Watcher error for ${tasksPath}:`, error));
+    watchers.set(tasksPath, entry);
+  }
+
+  entry.listeners.add(listener);
+
+  return () => {
+    const current = watchers.get(tasksPath);
+    if (!current) return;
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      current.watcher?.close();
+      current.timers.forEach((timer) => clearTimeout(timer));
+      watchers.delete(tasksPath);
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import type { ApiMessage, ContentBlock } from '../shared/history.js';
+
+const ENVIRONMENT_PATTERN = /# Current Workspace Directory \(([^)]+)\) Files/;
+// execute_command results name the directory the command ran in
+const COMMAND_DIRECTORY_PATTERN = /within working directory '([^']+)'/;
+
+function isAbsolutePath(value: string): boolean {
+  return value.startsWith('/') || /^[A-Za-z]:[\\/]/.test(value);
+}
+
+function trimTrailingSeparator(value: string): string {
+  return value.length > 1 ? value.replace(/[\\/]+$/, '') : value;
+}
+
+function getBlockText(block: ContentBlock): string {
+  if (typeof block.content === 'string') return block.content;
+  if (Array.isArray(block.content)) {
+    return block.content.map((part) => (part.type === 'text' ? part.text ?? '' : '')).join('\n');
+  }
+  return block.text ?? '';
+}
+
+/**
+ * Deepest directory shared by every path, or null when they only share
+ * the filesystem root, which says nothing about the project.
+ */
+function commonDirectory(paths: string[]): string | null {
+  if (paths.length === 0) return null;
+  const separator = paths[0].includes('\\') ? '\\' : '/';
+  const split = paths.map((p) => p.split(/[\\/]/));
+  const common: string[] = [];
+  for (let i = 0; i < split[0].length; i++) {
+    const segment = split[0][i];
+    if (!split.every((parts) => parts[i] === segment)) break;
+    common.push(segment);
+  }
+  const meaningful = common.filter(Boolean);
+  if (meaningful.length === 0 || (meaningful.length === 1 && /^[A-Za-z]:$/.test(meaningful[0]))) return null;
+  return common.join(separator);
+}
+
+/**
+ * The directory a task worked in. environment_details names it directly;
+ * tasks without it fall back to where commands ran, then to the common
+ * parent of absolute paths passed to tools.
+ */
+export function findWorkspace(conversation: ApiMessage[]): string | null {
+  const commandDirectories: string[] = [];
+  const toolPaths: string[] = [];
+
+  for (const message of conversation) {
+    if (!Array.isArray(message.content)) continue;
+    for (const block of message.content) {
+      if (message.role === 'user' && block.type === 'text' && block.text) {
+        const match = block.text.match(ENVIRONMENT_PATTERN);
+        if (match) return trimTrailingSeparator(match[1].trim());
+      } else if (block.type === 'tool_result') {
+        const match = getBlockText(block).match(COMMAND_DIRECTORY_PATTERN);
+        if (match) commandDirectories.push(trimTrailingSeparator(match[1]));
+      } else if (block.type === 'tool_use' && block.input) {
+        const { cwd, path } = block.input;
+        if (typeof cwd === 'string' && isAbsolutePath(cwd)) toolPaths.push(trimTrailingSeparator(cwd));
+        // A file's directory, not the file itself, can be a workspace
+        if (typeof path === 'string' && isAbsolutePath(path)) toolPaths.push(path.replace(/[\\/][^\\/]*$/, ''));
+      }
+    }
+  }
+
+  return commonDirectory(commandDirectories) ?? commonDirectory(toolPaths);
+}
@@ -0,0 +1,46 @@
+// Shapes of Roo's task files as parsed from disk. Roo writes them, so every
+// field is read defensively; these types only describe what to expect.
+
+/** A block of an api_conversation_history.json message. */
+export interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  /** A tool_result's output, as plain text or as nested blocks */
+  content?: string | ContentBlock[];
+  is_error?: boolean;
+  summary?: string[];
+  /** Virtual tool_use parsed from an XML tool call in assistant text */
+  xml?: boolean;
+  source?: {
+    type: string;
+    media_type?: string;
+    data?: string;
+  };
+}
+
+/** A message of api_conversation_history.json. */
+export interface ApiMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock[] | string;
+  ts: number;
+  isSummary?: boolean;
+  condenseId?: string;
+  condenseParent?: string;
+  isTruncationMarker?: boolean;
+  truncationId?: string;
+  truncationParent?: string;
+}
+
+/** A message of ui_messages.json, the chat as Roo's webview showed it. */
+export interface UiMessage {
+  ts: number;
+  type: string;
+  say?: string;
+  ask?: string;
+  text?: string;
+  partial?: boolean;
+}
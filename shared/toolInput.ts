@@ -0,0 +1,14 @@
+/**
+ * The values of a tool call's input as plain text, one per line, so a
+ * search for a quoted string, a Windows path or several lines matches the
+ * text as written rather than its JSON escaping.
+ */
+export function getToolInputText(input: unknown): string {
+  if (typeof input === 'string') return input;
+  if (typeof input === 'number' || typeof input === 'boolean') return String(input);
+  if (Array.isArray(input)) return input.map(getToolInputText).filter(Boolean).join('\n');
+  if (input && typeof input === 'object') {
+    return Object.values(input).map(getToolInputText).filter(Boolean).join('\n');
+  }
+  return '';
+}
@@ -0,0 +1,142 @@
+import type { ContentBlock } from './history.js';
+
+// Tools Roo accepted in its XML protocol, written as `<tool><param>…</param></tool>` in assistant text
+const XML_TOOL_NAMES = new Set([
+  'read_file',
+  'write_to_file',
+  'apply_diff',
+  'insert_content',
+  'search_and_replace',
+  'search_files',
+  'list_files',
+  'list_code_definition_names',
+  'codebase_search',
+  'execute_command',
+  'browser_action',
+  'use_mcp_tool',
+  'access_mcp_resource',
+  'ask_followup_question',
+  'attempt_completion',
+  'switch_mode',
+  'new_task',
+  'fetch_instructions',
+  'update_todo_list',
+  'run_slash_command',
+  'generate_image'
+]);
+
+const TOOL_CALL_PATTERN = /<([a-z_]+)>([\s\S]*?)<\/\1>/g;
+const PARAM_PATTERN = /<([a-z_]+)>([\s\S]*?)<\/\1>/g;
+const RESULT_HEADER_PATTERN = /^\[([a-z_]+)\b[\s\S]*?\] Result:/;
+
+interface ExpandableMessage {
+  role: string;
+  content: ContentBlock[] | string;
+}
+
+function trimNewlines(value: string): string {
+  return value.replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+}
+
+function parseParams(body: string): Record<string, string> {
+  const input: Record<string, string> = {};
+  for (const match of body.matchAll(PARAM_PATTERN)) {
+    input[match[1]] = trimNewlines(match[2]);
+  }
+  return input;
+}
+
+function getContent(content: ContentBlock[] | string): ContentBlock[] {
+  if (typeof content === 'string') return [{ type: 'text', text: content }];
+  return Array.isArray(content) ? content : [];
+}
+
+function splitToolCalls(text: string, messageIndex: number, counter: { next: number }): ContentBlock[] | null {
+  const blocks: ContentBlock[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOOL_CALL_PATTERN)) {
+    if (!XML_TOOL_NAMES.has(match[1])) continue;
+    const before = text.slice(lastIndex, match.index).trim();
+    if (before) blocks.push({ type: 'text', text: before });
+    blocks.push({
+      type: 'tool_use',
+      id: `xml-${messageIndex}-${counter.next++}`,
+      name: match[1],
+      input: parseParams(match[2]),
+      xml: true
+    });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (blocks.length === 0) return null;
+  const after = text.slice(lastIndex).trim();
+  if (after) blocks.push({ type: 'text', text: after });
+  return blocks;
+}
+
+/**
+ * Rewrite tool calls made through Roo's XML protocol into the native block
+ * shape: assistant text is split into text and `tool_use` blocks, and the
+ * `[tool for '…'] Result:` text that follows in the next user message is
+ * folded into a `tool_result` pointing back at it. Conversations that only
+ * use native tool calls are returned unchanged. The server and the client
+ * both expand with this, so block indexes in search hits and annotations
+ * match what the viewer renders.
+ */
+export function expandXmlToolCalls<T extends ExpandableMessage>(conversation: T[]): T[] {
+  let pending: ContentBlock[] = [];
+
+  return conversation.map((message, messageIndex) => {
+    const content = getContent(message.content);
+
+    if (message.role === 'assistant') {
+      pending = [];
+      if (!content.some((block) => block.type === 'text' && block.text?.includes('</'))) return message;
+
+      const counter = { next: 0 };
+      const expanded = content.flatMap((block) => {
+        if (block.type !== 'text' || !block.text) return [block];
+        return splitToolCalls(block.text, messageIndex, counter) ?? [block];
+      });
+      pending = expanded.filter((block) => block.xml);
+      return pending.length > 0 ? { ...message, content: expanded } : message;
+    }
+
+    if (message.role !== 'user' || pending.length === 0) return message;
+
+    const expanded: ContentBlock[] = [];
+    const results: ContentBlock[] = [];
+    let current: ContentBlock | null = null;
+    for (const block of content) {
+      const header = block.type === 'text' ? block.text?.match(RESULT_HEADER_PATTERN) : null;
+      if (header) {
+        const index = pending.findIndex((toolUse) => toolUse.name === header[1]);
+        const toolUse = index >= 0 ? pending.splice(index, 1)[0] : pending.shift();
+        if (toolUse) {
+          current = { type: 'tool_result', tool_use_id: toolUse.id, content: block.text!.slice(header[0].length).trim() };
+          expanded.push(current);
+          results.push(current);
+          continue;
+        }
+      }
+
+      // Result text follows its header as separate blocks, up to the environment details
+      if (current && block.type === 'text' && !block.text?.startsWith('<environment_details>')) {
+        current.content = current.content ? `${current.content}\n${block.text ?? ''}` : block.text ?? '';
+        continue;
+      }
+
+      current = null;
+      expanded.push(block);
+    }
+
+    pending = [];
+    if (results.length === 0) return message;
+
+    for (const result of results) {
+      result.is_error = typeof result.content === 'string' && result.content.trimStart().startsWith('<error>');
+    }
+    return { ...message, content: expanded };
+  });
+}
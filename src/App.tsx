@@ -2,8 +2,36 @@ import { useState, useEffect, useRef } from 'react'
 import TaskList from './components/TaskList'
 import ConversationView from './components/ConversationView'
 import ConversationBuilder from './components/ConversationBuilder'
-import type { Task, Message, UIMessage } from './types'
+import SearchResults from './components/SearchResults'
+import AnalyticsDashboard from './components/AnalyticsDashboard'
+import SavedViewsMenu from './components/SavedViewsMenu'
+import SourcesDialog from './components/SourcesDialog'
+import type {
+  Task,
+  TaskSource,
+  Message,
+  UIMessage,
+  ConversationEvent,
+  ConversationCursor,
+  ConversationResponse,
+  MessageLocation,
+  Annotation,
+  AnnotationDraft,
+  AnnotationSummary,
+  TaskMeta,
+  TaskFilter,
+  SavedView,
+  SearchHit,
+  SearchResponse,
+} from './types'
+import { applyMessagePatch } from './types'
+import { apiFetch, apiEventSource, UnauthorizedError } from '@/lib/api'
+import { compareAnnotations } from '@/lib/annotations'
+import { EMPTY_TASK_FILTER } from '@/lib/task-filter'
+import { ALL_SOURCES, isSourceAvailable } from '@/lib/sources'
+import { formatRoute, messageUrl, parseRoute, type AppMode, type Route } from '@/lib/routes'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import {
   Select,
   SelectContent,
@@ -13,24 +41,66 @@ import {
 } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
-import { BookOpen, Hammer, Upload, AlertCircle } from 'lucide-react'
+import { BookOpen, Hammer, BarChart3, Upload, AlertCircle, Search, X, FilePlus, Settings } from 'lucide-react'
 
-type Source = 'nightly' | 'production'
-type AppMode = 'viewer' | 'builder'
+type BuilderMessage = Message & { _id: string }
 
-function getStoredSource(): Source {
-  const stored = localStorage.getItem('convo-viewer-source')
-  return stored === 'production' ? 'production' : 'nightly'
+function getStoredSource(): string {
+  return localStorage.getItem('convo-viewer-source') || ''
 }
 
 function getStoredMode(): AppMode {
   const stored = localStorage.getItem('convo-viewer-mode')
-  return stored === 'builder' ? 'builder' : 'viewer'
+  return stored === 'builder' || stored === 'analytics' ? stored : 'viewer'
+}
+
+function getStoredTaskFilter(): TaskFilter {
+  try {
+    const stored = localStorage.getItem('convo-viewer-task-filter')
+    return stored ? { ...EMPTY_TASK_FILTER, ...JSON.parse(stored) } : EMPTY_TASK_FILTER
+  } catch {
+    return EMPTY_TASK_FILTER
+  }
+}
+
+function draftKey(draftId: string): string {
+  return `convo-builder-draft-${draftId}`
+}
+
+function loadDraft(draftId: string | null): BuilderMessage[] {
+  if (!draftId) return []
+  try {
+    const saved = localStorage.getItem(draftKey(draftId))
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+const CURRENT_DRAFT_KEY = 'convo-builder-current-draft'
+
+function newDraftId(): string {
+  return crypto.randomUUID().slice(0, 8)
+}
+
+function currentUrl(): string {
+  return window.location.pathname + window.location.search + window.location.hash
+}
+
+/** Record a navigation; replacing rewrites the current entry in place. */
+function navigate(route: Route, replace = false) {
+  const url = formatRoute(route)
+  if (url === currentUrl()) return
+  if (replace) window.history.replaceState(window.history.state, '', url)
+  else window.history.pushState(null, '', url)
 }
 
 export default function App() {
-  const [mode, setMode] = useState<AppMode>(getStoredMode)
-  const [source, setSource] = useState<Source>(getStoredSource)
+  const [initialRoute] = useState(() => parseRoute())
+  const [mode, setMode] = useState<AppMode>(() => initialRoute?.mode ?? getStoredMode())
+  const [source, setSource] = useState<string>(() => initialRoute?.source ?? getStoredSource())
+  const [sources, setSources] = useState<TaskSource[] | null>(null)
+  const [sourcesOpen, setSourcesOpen] = useState(false)
   const [tasks, setTasks] = useState<Task[]>([])
   const [selectedTask, setSelectedTask] = useState<string | null>(null)
   const [conversation, setConversation] = useState<Message[] | null>(null)
@@ -40,25 +110,132 @@ export default function App() {
   const [error, setError] = useState<string | null>(null)
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null)
   const [previewConversation, setPreviewConversation] = useState<Message[] | null>(null)
-  const [builderMessages, setBuilderMessages] = useState<(Message & { _id: string })[]>([])
+  const [draftId, setDraftId] = useState<string | null>(() => initialRoute?.draftId ?? null)
+  const [builderMessages, setBuilderMessages] = useState<BuilderMessage[]>(() => loadDraft(initialRoute?.draftId ?? null))
+  const [streamConnected, setStreamConnected] = useState(false)
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchResponse, setSearchResponse] = useState<SearchResponse | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [focusTarget, setFocusTarget] = useState<MessageLocation | null>(null)
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [annotationSummary, setAnnotationSummary] = useState<Record<string, AnnotationSummary>>({})
+  const [taskMeta, setTaskMeta] = useState<Record<string, TaskMeta>>({})
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>(getStoredTaskFilter)
+  const [savedViews, setSavedViews] = useState<SavedView[]>([])
+  // Bumped on back/forward so the conversation re-reads its toggles and scroll from the URL
+  const [routeKey, setRouteKey] = useState(0)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const conversationRef = useRef<Message[] | null>(null)
+  const uiMessagesRef = useRef<UIMessage[] | null>(null)
+  const fetchStateRef = useRef<{ cursor: ConversationCursor; etag: string | null } | null>(null)
+  // A task from the URL waits until the task list of its source has loaded
+  const pendingRouteRef = useRef<Route | null>(initialRoute?.taskId ? initialRoute : null)
+  const applyRouteRef = useRef<(route: Route) => void>(() => {})
+  const conversationReady = selectedTask !== null && conversation !== null
+
+  useEffect(() => {
+    conversationRef.current = conversation
+    uiMessagesRef.current = uiMessages
+  }, [conversation, uiMessages])
 
   useEffect(() => {
     localStorage.setItem('convo-viewer-mode', mode)
   }, [mode])
 
   useEffect(() => {
-    if (mode === 'viewer') {
+    if (draftId === null) return
+    if (builderMessages.length > 0) {
+      localStorage.setItem(draftKey(draftId), JSON.stringify(builderMessages))
+    } else {
+      localStorage.removeItem(draftKey(draftId))
+    }
+  }, [draftId, builderMessages])
+
+  useEffect(() => {
+    localStorage.setItem('convo-viewer-task-filter', JSON.stringify(taskFilter))
+  }, [taskFilter])
+
+  useEffect(() => {
+    loadSources()
+    loadSavedViews()
+  }, [])
+
+  useEffect(() => {
+    if (mode === 'builder' && !initialRoute?.draftId) openDraft(null, true)
+
+    function handlePopState() {
+      const route = parseRoute()
+      if (route) applyRouteRef.current(route)
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  useEffect(() => {
+    if (mode === 'viewer' && source) {
       loadTasks()
+      loadAnnotationSummary()
+      loadTaskMeta()
     }
   }, [source, mode])
 
   useEffect(() => {
-    if (mode !== 'viewer') return
+    setAnnotations([])
+    if (!selectedTask || !source) return
+
+    let cancelled = false
+    apiFetch(`/api/annotations/${source}/${selectedTask}`)
+      .then(res => (res.ok ? res.json() : []))
+      .then((data: Annotation[]) => {
+        if (!cancelled) setAnnotations(data)
+      })
+      .catch(() => {
+        // Annotations are optional; the conversation still loads without them
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [source, selectedTask])
+
+  useEffect(() => {
+    if (mode !== 'viewer' || !source) return
+    // Subscribe to the selected task only once its initial fetch is in
+    if (selectedTask && !conversationReady) return
+
+    const params = new URLSearchParams()
+    if (selectedTask) {
+      params.set('task', selectedTask)
+      params.set('api', String(conversationRef.current?.length ?? 0))
+      params.set('ui', String(uiMessagesRef.current?.length ?? 0))
+    }
+
+    const events = apiEventSource(`/api/events/${source}`, params)
+    events.onopen = () => setStreamConnected(true)
+    events.onerror = () => setStreamConnected(false)
+    events.addEventListener('tasks', (event) => {
+      setTasks(JSON.parse((event as MessageEvent).data))
+    })
+    events.addEventListener('conversation', (event) => {
+      const data: ConversationEvent = JSON.parse((event as MessageEvent).data)
+      if (data.taskId !== selectedTask) return
+      if (data.api) setConversation(prev => applyMessagePatch(prev, data.api!))
+      if (data.ui) setUiMessages(prev => applyMessagePatch(prev, data.ui!))
+    })
+
+    return () => {
+      events.close()
+      setStreamConnected(false)
+    }
+  }, [source, mode, selectedTask, conversationReady])
+
+  // Polling only runs while the event stream is down
+  useEffect(() => {
+    if (mode !== 'viewer' || !source || streamConnected) return
 
     const interval = setInterval(async () => {
       try {
-        const res = await fetch(`/api/tasks/${source}`)
+        const res = await apiFetch(`/api/tasks/${source}`)
         if (!res.ok) return
         const data: Task[] = await res.json()
         
@@ -69,7 +246,7 @@ export default function App() {
           if (newTasks.length === 0) {
             const updatedTasks = prevTasks.map(prevTask => {
               const updated = data.find(t => t.id === prevTask.id)
-              return updated ? { ...prevTask, timestamp: updated.timestamp } : prevTask
+              return updated ? { ...prevTask, ...updated } : prevTask
             })
             updatedTasks.sort((a, b) => b.timestamp - a.timestamp)
             return updatedTasks
@@ -85,25 +262,77 @@ export default function App() {
     }, 5000)
 
     return () => clearInterval(interval)
-  }, [source, mode])
+  }, [source, mode, streamConnected])
 
   useEffect(() => {
-    if (!selectedTask || mode !== 'viewer') return
+    if (!selectedTask || !source || mode !== 'viewer' || streamConnected) return
 
     const interval = setInterval(async () => {
       try {
-        const res = await fetch(`/api/task/${source}/${selectedTask}`)
-        if (!res.ok) return
-        const data = await res.json()
-        setConversation(data.apiConversation)
-        setUiMessages(data.uiMessages)
+        const fetchState = fetchStateRef.current
+        const params = new URLSearchParams()
+        if (fetchState) {
+          params.set('apiSince', fetchState.cursor.api)
+          if (fetchState.cursor.ui) params.set('uiSince', fetchState.cursor.ui)
+        }
+        const res = await apiFetch(`/api/task/${source}/${selectedTask}?${params}`, {
+          cache: 'no-store',
+          headers: fetchState?.etag ? { 'If-None-Match': fetchState.etag } : {},
+        })
+        if (res.status === 304 || !res.ok) return
+        applyConversationResponse(await res.json(), res.headers.get('ETag'))
       } catch {
         // Silently ignore polling errors
       }
     }, 2000)
 
     return () => clearInterval(interval)
-  }, [selectedTask, source, mode])
+  }, [selectedTask, source, mode, streamConnected])
+
+  async function loadSources() {
+    try {
+      const res = await apiFetch('/api/sources')
+      if (!res.ok) throw new Error('Failed to load sources')
+      const data: TaskSource[] = await res.json()
+      setSources(data)
+
+      if (data.length === 0) {
+        setSource('')
+        setTasks([])
+        setError('No Roo Code task storage found on this machine. Add a task folder with the sources button.')
+      } else if (!isSourceAvailable(data, source)) {
+        setSource(data[0].id)
+        pendingRouteRef.current = null
+        if (mode !== 'builder') navigate({ mode, source: data[0].id }, true)
+      } else if (!initialRoute && mode !== 'builder') {
+        navigate({ mode, source }, true)
+      }
+    } catch (err) {
+      setError(err instanceof UnauthorizedError ? err.message : 'Failed to load sources. Make sure the server is running.')
+    }
+  }
+
+  async function addSource(name: string, path: string) {
+    const res = await apiFetch('/api/sources', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, path }),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to add source')
+    setError(null)
+    await loadSources()
+  }
+
+  async function removeSource(removed: TaskSource) {
+    if (!window.confirm(`Remove the source "${removed.label}"? Its task folder is left untouched.`)) return
+    const res = await apiFetch(`/api/sources/${removed.id}`, { method: 'DELETE' })
+    if (!res.ok && res.status !== 404) {
+      const data = await res.json()
+      throw new Error(data.error || 'Failed to remove source')
+    }
+    await loadSources()
+  }
 
   async function loadTasks() {
     setLoadingTasks(true)
@@ -113,42 +342,187 @@ export default function App() {
     setUiMessages(null)
     
     try {
-      const res = await fetch(`/api/tasks/${source}`)
+      const res = await apiFetch(`/api/tasks/${source}`)
       if (!res.ok) throw new Error('Failed to load tasks')
       const data = await res.json()
       setTasks(data)
-    } catch {
-      setError('Failed to load tasks. Make sure the server is running.')
+
+      const pending = pendingRouteRef.current
+      pendingRouteRef.current = null
+      if (pending?.taskId && pending.source === source) {
+        loadConversation(pending.taskId, pending.target ?? null, false)
+      }
+    } catch (err) {
+      setError(err instanceof UnauthorizedError ? err.message : 'Failed to load tasks. Make sure the server is running.')
     } finally {
       setLoadingTasks(false)
     }
   }
 
-  async function loadConversation(taskId: string) {
+  async function loadAnnotationSummary() {
+    try {
+      const res = await apiFetch(`/api/annotations/${source}`)
+      if (res.ok) setAnnotationSummary(await res.json())
+    } catch {
+      // Markers are a nicety; the task list works without them
+    }
+  }
+
+  async function loadTaskMeta() {
+    try {
+      const res = await apiFetch(`/api/task-meta/${source}`)
+      if (res.ok) setTaskMeta(await res.json())
+    } catch {
+      // Tags and pins are a nicety; the task list works without them
+    }
+  }
+
+  async function updateTaskMeta(taskId: string, patch: Partial<TaskMeta>) {
+    const res = await apiFetch(`/api/task-meta/${source}/${taskId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    })
+    const data: TaskMeta & { error?: string } = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to update task')
+    setTaskMeta(prev => ({ ...prev, [taskId]: data }))
+  }
+
+  async function loadSavedViews() {
+    try {
+      const res = await apiFetch('/api/views')
+      if (res.ok) setSavedViews(await res.json())
+    } catch {
+      // Saved views are optional
+    }
+  }
+
+  async function saveView(name: string) {
+    const res = await apiFetch('/api/views', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, filter: taskFilter }),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to save view')
+    setSavedViews(prev => [...prev.filter(v => v.name !== data.name), data])
+  }
+
+  async function deleteView(view: SavedView) {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return
+    try {
+      const res = await apiFetch(`/api/views/${view.id}`, { method: 'DELETE' })
+      if (!res.ok && res.status !== 404) throw new Error('Failed to delete view')
+      setSavedViews(prev => prev.filter(v => v.id !== view.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete view')
+    }
+  }
+
+  async function saveAnnotation(draft: AnnotationDraft, id?: string) {
+    if (!selectedTask) return
+    const res = await apiFetch(`/api/annotations/${source}/${selectedTask}${id ? `/${id}` : ''}`, {
+      method: id ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(draft),
+    })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || 'Failed to save annotation')
+
+    setAnnotations(prev => {
+      const next = id ? prev.map(a => (a.id === id ? data : a)) : [...prev, data]
+      return next.sort(compareAnnotations)
+    })
+    loadAnnotationSummary()
+  }
+
+  async function deleteAnnotation(id: string) {
+    if (!selectedTask) return
+    const res = await apiFetch(`/api/annotations/${source}/${selectedTask}/${id}`, { method: 'DELETE' })
+    if (!res.ok && res.status !== 404) throw new Error('Failed to delete annotation')
+    setAnnotations(prev => prev.filter(a => a.id !== id))
+    loadAnnotationSummary()
+  }
+
+  async function runSearch(query: string) {
+    const trimmed = query.trim()
+    setSearchQuery(trimmed)
+    if (!trimmed) {
+      setSearchResponse(null)
+      return
+    }
+
+    setSearching(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ q: trimmed })
+      const res = await apiFetch(`/api/search/${source}?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Search failed')
+      setSearchResponse(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed')
+      setSearchResponse(null)
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  function clearSearch() {
+    setSearchInput('')
+    setSearchQuery('')
+    setSearchResponse(null)
+  }
+
+  function openSearchHit(taskId: string, hit: SearchHit | null) {
+    const target = hit ? { messageIndex: hit.messageIndex, blockIndex: hit.blockIndex } : null
+    if (taskId === selectedTask && conversation) {
+      setFocusTarget(target)
+    } else {
+      loadConversation(taskId, target)
+    }
+  }
+
+  function applyConversationResponse(data: ConversationResponse, etag: string | null) {
+    if ('apiConversation' in data) {
+      setConversation(data.apiConversation)
+      setUiMessages(data.uiMessages)
+    } else {
+      setConversation(prev => applyMessagePatch(prev, data.api))
+      if (data.ui) setUiMessages(prev => applyMessagePatch(prev, data.ui!))
+    }
+    fetchStateRef.current = { cursor: data.cursor, etag }
+  }
+
+  async function loadConversation(taskId: string, focus: MessageLocation | null = null, record = true) {
     if (loadingConversation) return
     
+    if (record) {
+      navigate({ mode: 'viewer', source, taskId, target: focus, view: parseRoute()?.view })
+    }
     setLoadingConversation(true)
     setError(null)
     setSelectedTask(taskId)
+    setFocusTarget(focus)
     setConversation(null)
     setUiMessages(null)
+    fetchStateRef.current = null
     
     try {
-      const res = await fetch(`/api/task/${source}/${taskId}`)
+      const res = await apiFetch(`/api/task/${source}/${taskId}`)
       if (!res.ok) {
         if (res.status === 404) {
           setError('Conversation not found. The task may have been deleted.')
           setSelectedTask(null)
+          navigate({ mode: 'viewer', source }, true)
           loadTasks()
           return
         }
         throw new Error('Failed to load conversation')
       }
-      const data = await res.json()
-      setConversation(data.apiConversation)
-      setUiMessages(data.uiMessages)
-    } catch {
-      setError('Failed to load conversation')
+      applyConversationResponse(await res.json(), res.headers.get('ETag'))
+    } catch (err) {
+      setError(err instanceof UnauthorizedError ? err.message : 'Failed to load conversation')
       setSelectedTask(null)
     } finally {
       setLoadingConversation(false)
@@ -173,6 +547,7 @@ export default function App() {
           setUiMessages(null)
           setSelectedTask(null)
           setUploadedFileName(file.name)
+          navigate({ mode: 'viewer', source })
         } else {
           setError('Invalid file format. Expected an array of messages.')
         }
@@ -204,8 +579,71 @@ export default function App() {
       setSelectedTask(null)
       setConversation(null)
       setUploadedFileName(null)
+      openDraft(null)
     } else {
       setPreviewConversation(null)
+      navigate({ mode: appMode, source })
+    }
+  }
+
+  function handleSourceChange(value: string) {
+    localStorage.setItem('convo-viewer-source', value)
+    setSource(value)
+    clearSearch()
+    navigate({ mode, source: value })
+  }
+
+  function closeConversation() {
+    setConversation(null)
+    setUiMessages(null)
+    setSelectedTask(null)
+    setUploadedFileName(null)
+  }
+
+  /** Switch the builder to a draft, defaulting to the one last worked on. */
+  function openDraft(id: string | null, replace = false) {
+    const nextId = id ?? draftId ?? localStorage.getItem(CURRENT_DRAFT_KEY) ?? newDraftId()
+    if (nextId !== draftId) {
+      setDraftId(nextId)
+      setBuilderMessages(loadDraft(nextId))
+    }
+    localStorage.setItem(CURRENT_DRAFT_KEY, nextId)
+    navigate({ mode: 'builder', draftId: nextId }, replace)
+  }
+
+  // Keep the open task's URL in step with in-conversation navigation
+  function updateTaskRoute(patch: Pick<Route, 'target' | 'view' | 'scroll' | 'open'>) {
+    if (!selectedTask) return
+    navigate({ ...parseRoute(), mode: 'viewer', source, taskId: selectedTask, ...patch }, true)
+  }
+
+  applyRouteRef.current = (route: Route) => {
+    setMode(route.mode)
+    setRouteKey(key => key + 1)
+    if (route.mode === 'builder') {
+      openDraft(route.draftId ?? null, true)
+      return
+    }
+
+    setPreviewConversation(null)
+    const nextSource = route.source ?? source
+    // Either change reloads the task list, which then opens the routed task
+    if (nextSource !== source || (route.mode === 'viewer' && mode !== 'viewer')) {
+      pendingRouteRef.current = route.taskId ? { ...route, source: nextSource } : null
+      if (nextSource !== source) {
+        setSource(nextSource)
+        clearSearch()
+      }
+      return
+    }
+
+    if (route.mode !== 'viewer') return
+    if (!route.taskId) {
+      closeConversation()
+    } else if (route.taskId !== selectedTask) {
+      loadConversation(route.taskId, route.target ?? null, false)
+    } else {
+      setFocusTarget(route.target ?? null)
     }
   }
 
@@ -239,30 +677,70 @@ export default function App() {
                   <Hammer className="h-4 w-4 mr-2" />
                   Builder
                 </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="analytics"
+                  aria-label="Analytics mode"
+                  className="data-[state=on]:bg-background data-[state=on]:text-foreground px-4 py-1.5 text-sm"
+                >
+                  <BarChart3 className="h-4 w-4 mr-2" />
+                  Analytics
+                </ToggleGroupItem>
               </ToggleGroup>
             </div>
             
             <div className="flex items-center gap-4">
+              {mode === 'builder' && (
+                <Button
+                  variant="outline"
+                  onClick={() => openDraft(newDraftId())}
+                  title={draftId ? `Current draft: ${draftId}` : undefined}
+                >
+                  <FilePlus className="h-4 w-4 mr-2" />
+                  New Draft
+                </Button>
+              )}
+              {mode !== 'builder' && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Source:</span>
+                  <Select
+                    value={source}
+                    disabled={!sources || sources.length === 0}
+                    onValueChange={handleSourceChange}
+                  >
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue placeholder={sources ? 'No sources found' : 'Loading…'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sources && sources.length > 1 && (
+                        <SelectItem value={ALL_SOURCES}>All sources</SelectItem>
+                      )}
+                      {sources?.map((s) => (
+                        <SelectItem key={s.id} value={s.id} title={s.path}>
+                          {s.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSourcesOpen(true)}
+                    disabled={!sources}
+                    title="Manage sources"
+                  >
+                    <Settings className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
               {mode === 'viewer' && (
                 <>
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-muted-foreground">Source:</span>
-                    <Select
-                      value={source}
-                      onValueChange={(value: Source) => {
-                        localStorage.setItem('convo-viewer-source', value)
-                        setSource(value)
-                      }}
-                    >
-                      <SelectTrigger className="w-[140px]">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="nightly">Nightly</SelectItem>
-                        <SelectItem value="production">Production</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  <SavedViewsMenu
+                    views={savedViews}
+                    filter={taskFilter}
+                    onApply={(view) => setTaskFilter(view.filter)}
+                    onSave={saveView}
+                    onDelete={deleteView}
+                  />
                   <input
                     ref={fileInputRef}
                     type="file"
@@ -292,16 +770,60 @@ export default function App() {
           </Alert>
         )}
 
-        {mode === 'viewer' ? (
+        {mode === 'analytics' ? (
+          <AnalyticsDashboard source={source} />
+        ) : mode === 'viewer' ? (
           <div className="grid grid-cols-12 gap-6">
-            <div className="col-span-4">
-              {loadingTasks ? (
+            <div className="col-span-4 space-y-3">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  runSearch(searchInput)
+                }}
+                className="relative"
+              >
+                <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder='Search tasks, e.g. tool:execute_command "migrate"'
+                  disabled={!source}
+                  className="pl-9 pr-9"
+                />
+                {searchQuery && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={clearSearch}
+                    className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </form>
+              {loadingTasks || searching ? (
                 <div className="bg-card rounded-lg shadow-lg p-8 text-center text-muted-foreground border border-border">
-                  Loading tasks...
+                  {searching ? 'Searching...' : 'Loading tasks...'}
                 </div>
+              ) : searchQuery && searchResponse ? (
+                <SearchResults
+                  query={searchQuery}
+                  results={searchResponse.results}
+                  total={searchResponse.total}
+                  selectedTask={selectedTask}
+                  onOpenHit={openSearchHit}
+                  disabled={loadingConversation}
+                />
               ) : (
                 <TaskList
                   tasks={tasks}
+                  sources={source === ALL_SOURCES ? sources ?? [] : undefined}
+                  annotations={annotationSummary}
+                  meta={taskMeta}
+                  filter={taskFilter}
+                  onFilterChange={setTaskFilter}
+                  onUpdateMeta={updateTaskMeta}
                   selectedTask={selectedTask}
                   onSelectTask={loadConversation}
                   disabled={loadingConversation}
@@ -315,14 +837,27 @@ export default function App() {
                 </div>
               ) : conversation ? (
                 <ConversationView
+                  key={routeKey}
                   messages={conversation}
                   uiMessages={uiMessages}
                   taskId={selectedTask ?? uploadedFileName ?? 'uploaded'}
+                  focusTarget={focusTarget}
+                  subtasks={tasks.find(t => t.id === selectedTask)?.subtasks}
+                  onOpenTask={(taskId) => loadConversation(taskId)}
+                  initialView={selectedTask ? parseRoute()?.view : undefined}
+                  initialScroll={selectedTask ? parseRoute()?.scroll : undefined}
+                  initialOpenBlocks={selectedTask ? parseRoute()?.open : undefined}
+                  onViewChange={selectedTask ? (view) => updateTaskRoute({ view }) : undefined}
+                  onFocusChange={selectedTask ? (target) => updateTaskRoute({ target }) : undefined}
+                  onScrollChange={selectedTask ? (scroll) => updateTaskRoute({ scroll }) : undefined}
+                  onOpenBlocksChange={selectedTask ? (open) => updateTaskRoute({ open }) : undefined}
+                  messageLink={selectedTask ? (target) => messageUrl({ mode: 'viewer', source, taskId: selectedTask, view: parseRoute()?.view }, target) : undefined}
+                  annotations={selectedTask ? annotations : undefined}
+                  onSaveAnnotation={selectedTask ? saveAnnotation : undefined}
+                  onDeleteAnnotation={selectedTask ? deleteAnnotation : undefined}
                   onClose={() => {
-                    setConversation(null)
-                    setUiMessages(null)
-                    setSelectedTask(null)
-                    setUploadedFileName(null)
+                    closeConversation()
+                    navigate({ mode: 'viewer', source })
                   }}
                 />
               ) : (
@@ -362,6 +897,14 @@ export default function App() {
           </div>
         )}
       </main>
+
+      <SourcesDialog
+        open={sourcesOpen}
+        onOpenChange={setSourcesOpen}
+        sources={sources ?? []}
+        onAdd={addSource}
+        onRemove={removeSource}
+      />
     </div>
   )
 }
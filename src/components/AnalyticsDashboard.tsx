@@ -0,0 +1,257 @@
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RefreshCw } from 'lucide-react'
+import { apiFetch } from '@/lib/api'
+import { formatCost, formatTokens } from '@/lib/format'
+import type { AnalyticsReport } from '../types'
+
+const ALL_WORKSPACES = '__all__'
+
+interface AnalyticsDashboardProps {
+  source: string
+}
+
+interface BarRow {
+  label: string
+  value: number
+  display: string
+  title?: string
+  accent?: number
+}
+
+function BarList({ rows, barClass, accentClass }: { rows: BarRow[]; barClass: string; accentClass?: string }) {
+  const max = Math.max(...rows.map(row => row.value), 0)
+
+  if (rows.length === 0) {
+    return <div className="text-sm text-muted-foreground text-center py-6">No data</div>
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {rows.map((row) => (
+        <div key={row.label} className="flex items-center gap-2 text-xs" title={row.title}>
+          <span className="w-40 shrink-0 truncate font-mono text-muted-foreground">{row.label}</span>
+          <div className="flex-1 h-4 bg-muted rounded relative overflow-hidden">
+            <div
+              className={`h-full rounded ${barClass}`}
+              style={{ width: max > 0 ? `${(row.value / max) * 100}%` : 0 }}
+            />
+            {accentClass && row.accent !== undefined && row.accent > 0 && (
+              <div
+                className={`h-full rounded absolute top-0 left-0 ${accentClass}`}
+                style={{ width: max > 0 ? `${(row.accent / max) * 100}%` : 0 }}
+              />
+            )}
+          </div>
+          <span className="w-24 shrink-0 text-right text-foreground">{row.display}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function DailyChart({ daily }: { daily: AnalyticsReport['daily'] }) {
+  const maxCost = Math.max(...daily.map(day => day.cost), 0)
+
+  if (daily.length === 0) {
+    return <div className="text-sm text-muted-foreground text-center py-6">No API requests in range</div>
+  }
+
+  return (
+    <div className="flex items-end gap-px h-40 overflow-x-auto">
+      {daily.map((day) => (
+        <div
+          key={day.date}
+          className="flex-1 min-w-[6px] bg-emerald-600 hover:bg-emerald-500 rounded-t"
+          style={{ height: maxCost > 0 ? `${Math.max((day.cost / maxCost) * 100, 1)}%` : '1%' }}
+          title={`${day.date}\n${formatCost(day.cost)} · ${day.requests} requests\n↑${formatTokens(day.tokensIn)} ↓${formatTokens(day.tokensOut)} · cache ${formatTokens(day.cacheReads)} read / ${formatTokens(day.cacheWrites)} written`}
+        />
+      ))}
+    </div>
+  )
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="text-xs text-muted-foreground">{label}</div>
+        <div className="text-2xl font-semibold text-foreground">{value}</div>
+        {detail && <div className="text-xs text-muted-foreground mt-1">{detail}</div>}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function AnalyticsDashboard({ source }: AnalyticsDashboardProps) {
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [workspace, setWorkspace] = useState(ALL_WORKSPACES)
+  const [report, setReport] = useState<AnalyticsReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (source) loadReport()
+  }, [source, from, to, workspace])
+
+  async function loadReport() {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (from) params.set('from', from)
+      if (to) params.set('to', to)
+      if (workspace !== ALL_WORKSPACES) params.set('workspace', workspace)
+      const res = await apiFetch(`/api/analytics/${source}?${params}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load analytics')
+      setReport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load analytics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totals = report?.totals
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 flex items-end gap-4 flex-wrap">
+          <div className="space-y-1">
+            <Label htmlFor="analytics-from" className="text-xs text-muted-foreground">From</Label>
+            <Input id="analytics-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-[160px]" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="analytics-to" className="text-xs text-muted-foreground">To</Label>
+            <Input id="analytics-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-[160px]" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Workspace</Label>
+            <Select value={workspace} onValueChange={setWorkspace}>
+              <SelectTrigger className="w-[320px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_WORKSPACES}>All workspaces</SelectItem>
+                {report?.workspaces.map((ws) => (
+                  <SelectItem key={ws} value={ws} className="font-mono text-xs">{ws}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={loadReport} disabled={loading} className="ml-auto">
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="text-sm text-destructive">{error}</div>
+      )}
+
+      {totals && report && (
+        <>
+          <div className="grid grid-cols-4 gap-4">
+            <Stat label="Cost" value={formatCost(totals.cost)} detail={`${totals.requests.toLocaleString()} API requests`} />
+            <Stat
+              label="Tokens"
+              value={`↑${formatTokens(totals.tokensIn)} ↓${formatTokens(totals.tokensOut)}`}
+              detail={`Cache ${formatTokens(totals.cacheReads)} read / ${formatTokens(totals.cacheWrites)} written`}
+            />
+            <Stat label="Tasks" value={totals.tasks.toLocaleString()} detail={`${totals.avgTurns.toFixed(1)} assistant turns on average`} />
+            <Stat
+              label="Context management"
+              value={`${totals.condenseCount} / ${totals.truncationCount}`}
+              detail={`Condenses / truncations · ${totals.tasksWithCondense} and ${totals.tasksWithTruncation} tasks affected`}
+            />
+          </div>
+
+          <Card>
+            <CardHeader className="py-3 px-4">
+              <CardTitle className="text-base">Cost per day</CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 pb-4">
+              <DailyChart daily={report.daily} />
+              {report.daily.length > 0 && (
+                <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                  <span>{report.daily[0].date}</span>
+                  <span>{report.daily[report.daily.length - 1].date}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="py-3 px-4">
+                <CardTitle className="text-base">Tool usage</CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 pb-4">
+                <BarList
+                  rows={report.tools.map(tool => ({
+                    label: tool.name,
+                    value: tool.uses,
+                    accent: tool.errors,
+                    display: tool.uses.toLocaleString(),
+                    title: `${tool.uses} uses, ${tool.errors} errors`,
+                  }))}
+                  barClass="bg-amber-600"
+                  accentClass="bg-red-600"
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="py-3 px-4">
+                <CardTitle className="text-base">Tool error rate</CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 pb-4">
+                <BarList
+                  rows={report.tools
+                    .filter(tool => tool.errors > 0)
+                    .sort((a, b) => b.errorRate - a.errorRate)
+                    .map(tool => ({
+                      label: tool.name,
+                      value: tool.errorRate,
+                      display: `${(tool.errorRate * 100).toFixed(1)}%`,
+                      title: `${tool.errors} of ${tool.uses} calls failed`,
+                    }))}
+                  barClass="bg-red-600"
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="py-3 px-4">
+              <CardTitle className="text-base">Modes</CardTitle>
+            </CardHeader>
+            <CardContent className="px-4 pb-4">
+              <BarList
+                rows={report.modes.map(mode => ({
+                  label: mode.mode,
+                  value: mode.tasks,
+                  display: `${mode.tasks} ${mode.tasks === 1 ? 'task' : 'tasks'}`,
+                }))}
+                barClass="bg-violet-600"
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { formatAnnotationLocation, SEVERITIES } from '@/lib/annotations'
+import type { AnnotationDraft, AnnotationSeverity } from '../types'
+
+interface AnnotationDialogProps {
+  /** The annotation being written, or null while the dialog is closed */
+  draft: AnnotationDraft | null
+  editing: boolean
+  onSave: (draft: AnnotationDraft) => Promise<void>
+  onClose: () => void
+}
+
+export default function AnnotationDialog({ draft, editing, onSave, onClose }: AnnotationDialogProps) {
+  const [label, setLabel] = useState('')
+  const [comment, setComment] = useState('')
+  const [severity, setSeverity] = useState<AnnotationSeverity>('info')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!draft) return
+    setLabel(draft.label)
+    setComment(draft.comment)
+    setSeverity(draft.severity)
+    setError(null)
+  }, [draft])
+
+  async function save() {
+    if (!draft) return
+    setSaving(true)
+    setError(null)
+    try {
+      await onSave({ ...draft, label, comment, severity })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save annotation')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editing ? 'Edit annotation' : 'Add annotation'}</DialogTitle>
+          {draft && <DialogDescription>{formatAnnotationLocation(draft)}</DialogDescription>}
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="annotation-label">Label</Label>
+            <Input
+              id="annotation-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Went wrong here"
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <ToggleGroup
+              type="single"
+              value={severity}
+              onValueChange={(value) => value && setSeverity(value as AnnotationSeverity)}
+              className="justify-start"
+            >
+              {SEVERITIES.map((value) => (
+                <ToggleGroupItem key={value} value={value} className="text-xs px-3 h-7 capitalize">
+                  {value}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="annotation-comment">Comment</Label>
+            <Textarea
+              id="annotation-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={5}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) save()
+              }}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || (!label.trim() && !comment.trim())}>
+            {saving ? 'Saving…' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Pencil, Trash2, X } from 'lucide-react'
+import { formatAnnotationLocation, SEVERITY_CLASSES } from '@/lib/annotations'
+import type { Annotation } from '../types'
+
+interface AnnotationPanelProps {
+  annotations: Annotation[]
+  onSelect: (annotation: Annotation) => void
+  onEdit: (annotation: Annotation) => void
+  onDelete: (annotation: Annotation) => void
+  onClose: () => void
+}
+
+export default function AnnotationPanel({ annotations, onSelect, onEdit, onDelete, onClose }: AnnotationPanelProps) {
+  return (
+    <div className="w-72 shrink-0 border-l border-border flex flex-col h-[calc(100vh-200px)]">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-sm font-medium">Annotations</span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto divide-y divide-border">
+        {annotations.length === 0 ? (
+          <p className="p-4 text-xs text-muted-foreground text-center">
+            No annotations yet. Use the note button on a message or block to add one.
+          </p>
+        ) : (
+          annotations.map((annotation) => (
+            <div key={annotation.id} className="group p-3 hover:bg-muted/50">
+              <button onClick={() => onSelect(annotation)} className="w-full text-left">
+                <div className="flex items-center gap-2 mb-1">
+                  <Badge className={`text-[10px] px-1.5 py-0 ${SEVERITY_CLASSES[annotation.severity]}`}>
+                    {annotation.severity}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground">{formatAnnotationLocation(annotation)}</span>
+                </div>
+                {annotation.label && <div className="text-sm font-medium text-foreground">{annotation.label}</div>}
+                {annotation.comment && (
+                  <p className="text-xs text-foreground/80 whitespace-pre-wrap line-clamp-4 mt-1">{annotation.comment}</p>
+                )}
+              </button>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-[10px] text-muted-foreground/70">
+                  {new Date(annotation.updatedAt).toLocaleString()}
+                </span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onEdit(annotation)} title="Edit">
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onDelete(annotation)} title="Delete">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,241 @@
+import { useMemo, useState } from 'react'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import { Badge } from '@/components/ui/badge'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { CheckCircle2, Columns2, FileCode, Rows2, XCircle } from 'lucide-react'
+import { diffHunk, type DiffLine, type FileDiff } from '@/lib/apply-diff'
+import { getLanguageForPath } from '@/lib/languages'
+import { codeStyle } from '@/lib/syntax-theme'
+import { isFailedToolResult } from '@/lib/tool-results'
+import type { ContentBlock } from '../types'
+
+type DiffLayout = 'unified' | 'split'
+
+interface DiffRow {
+  kind: DiffLine['kind'] | 'empty'
+  text: string
+  number: number | null
+}
+
+interface ApplyDiffViewProps {
+  files: FileDiff[]
+  result?: ContentBlock
+}
+
+const LINE_HEIGHT = '1.25rem'
+
+const ROW_BACKGROUNDS: Record<DiffRow['kind'], string> = {
+  context: 'transparent',
+  add: 'rgba(34, 197, 94, 0.15)',
+  remove: 'rgba(239, 68, 68, 0.15)',
+  empty: 'hsl(var(--muted) / 0.5)',
+}
+
+const ROW_MARKERS: Record<DiffRow['kind'], string> = {
+  context: ' ',
+  add: '+',
+  remove: '-',
+  empty: ' ',
+}
+
+function getStoredLayout(): DiffLayout {
+  return localStorage.getItem('convo-viewer-diff-layout') === 'split' ? 'split' : 'unified'
+}
+
+// Pair each run of removed lines with the added lines that follow it
+function toSplitRows(lines: DiffLine[]): { left: DiffRow[]; right: DiffRow[] } {
+  const left: DiffRow[] = []
+  const right: DiffRow[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    if (line.kind === 'context') {
+      left.push({ kind: 'context', text: line.text, number: line.oldNumber })
+      right.push({ kind: 'context', text: line.text, number: line.newNumber })
+      i++
+      continue
+    }
+
+    const removed: DiffLine[] = []
+    const added: DiffLine[] = []
+    while (i < lines.length && lines[i].kind === 'remove') removed.push(lines[i++])
+    while (i < lines.length && lines[i].kind === 'add') added.push(lines[i++])
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      left.push(removed[k]
+        ? { kind: 'remove', text: removed[k].text, number: removed[k].oldNumber }
+        : { kind: 'empty', text: '', number: null })
+      right.push(added[k]
+        ? { kind: 'add', text: added[k].text, number: added[k].newNumber }
+        : { kind: 'empty', text: '', number: null })
+    }
+  }
+
+  return { left, right }
+}
+
+function DiffPane({ rows, language, showBothNumbers, lines }: {
+  rows: DiffRow[]
+  language: string
+  showBothNumbers?: boolean
+  lines?: DiffLine[]
+}) {
+  return (
+    <div className="flex min-w-0 flex-1 font-mono text-xs">
+      <div className="shrink-0 select-none border-r border-border text-right text-muted-foreground/70 py-1">
+        {rows.map((row, i) => (
+          <div
+            key={i}
+            className="flex gap-2 px-2"
+            style={{ height: LINE_HEIGHT, lineHeight: LINE_HEIGHT, background: ROW_BACKGROUNDS[row.kind] }}
+          >
+            {showBothNumbers && lines && (
+              <span className="w-8">{lines[i].oldNumber ?? ''}</span>
+            )}
+            <span className="w-8">{row.number ?? ''}</span>
+            <span className="w-2 text-foreground/60">{ROW_MARKERS[row.kind]}</span>
+          </div>
+        ))}
+      </div>
+      <div className="min-w-0 flex-1 overflow-x-auto">
+        <SyntaxHighlighter
+          language={language}
+          style={codeStyle}
+          customStyle={{
+            margin: 0,
+            padding: '0.25rem 0',
+            fontSize: '0.75rem',
+            lineHeight: LINE_HEIGHT,
+            background: 'transparent',
+            overflow: 'visible',
+          }}
+          codeTagProps={{ style: { background: 'transparent', lineHeight: LINE_HEIGHT } }}
+          wrapLines
+          lineProps={(lineNumber: number) => ({
+            style: {
+              display: 'block',
+              minWidth: '100%',
+              width: 'max-content',
+              height: LINE_HEIGHT,
+              paddingLeft: '0.5rem',
+              paddingRight: '0.5rem',
+              background: ROW_BACKGROUNDS[rows[lineNumber - 1]?.kind ?? 'context'],
+            },
+          })}
+        >
+          {rows.map((row) => row.text).join('\n')}
+        </SyntaxHighlighter>
+      </div>
+    </div>
+  )
+}
+
+function FileDiffView({ file, layout }: { file: FileDiff; layout: DiffLayout }) {
+  const language = getLanguageForPath(file.path)
+  const hunks = useMemo(() => file.hunks.map(diffHunk), [file])
+
+  return (
+    <div className="rounded border border-border bg-background overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border bg-muted/60 text-xs">
+        <FileCode className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        <span className="font-mono text-foreground/90 truncate">{file.path || 'unknown file'}</span>
+        <span className="ml-auto text-muted-foreground shrink-0">
+          {hunks.length} {hunks.length === 1 ? 'block' : 'blocks'}
+        </span>
+      </div>
+      {hunks.length === 0 && (
+        <div className="px-3 py-2 text-xs text-muted-foreground">No SEARCH/REPLACE blocks found</div>
+      )}
+      {hunks.map((lines, index) => {
+        const startLine = file.hunks[index].startLine
+        return (
+          <div key={index} className={index > 0 ? 'border-t border-dashed border-border' : undefined}>
+            {startLine !== null && (
+              <div className="px-3 py-0.5 text-[11px] font-mono text-sky-400/80 bg-sky-950/30">
+                @@ line {startLine} @@
+              </div>
+            )}
+            {layout === 'unified' ? (
+              <DiffPane
+                rows={lines.map((line) => ({ kind: line.kind, text: line.text, number: line.newNumber }))}
+                lines={lines}
+                language={language}
+                showBothNumbers
+              />
+            ) : (
+              <SplitHunk lines={lines} language={language} />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function SplitHunk({ lines, language }: { lines: DiffLine[]; language: string }) {
+  const { left, right } = useMemo(() => toSplitRows(lines), [lines])
+  return (
+    <div className="flex divide-x divide-border">
+      <DiffPane rows={left} language={language} />
+      <DiffPane rows={right} language={language} />
+    </div>
+  )
+}
+
+export default function ApplyDiffView({ files, result }: ApplyDiffViewProps) {
+  const [layout, setLayout] = useState<DiffLayout>(getStoredLayout)
+  const failed = result ? isFailedToolResult(result) : false
+
+  function handleLayoutChange(value: string) {
+    if (value !== 'unified' && value !== 'split') return
+    setLayout(value)
+    localStorage.setItem('convo-viewer-diff-layout', value)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {result && (
+          failed ? (
+            <Badge variant="destructive" className="text-xs font-medium flex items-center gap-1">
+              <XCircle className="h-3 w-3" />
+              Failed
+            </Badge>
+          ) : (
+            <Badge className="text-xs font-medium bg-emerald-900/40 text-emerald-400 hover:bg-emerald-900/50 flex items-center gap-1">
+              <CheckCircle2 className="h-3 w-3" />
+              Applied
+            </Badge>
+          )
+        )}
+        <ToggleGroup
+          type="single"
+          value={layout}
+          onValueChange={handleLayoutChange}
+          className="ml-auto bg-muted rounded p-0.5"
+        >
+          <ToggleGroupItem
+            value="unified"
+            aria-label="Unified diff"
+            className="h-6 px-2 text-xs data-[state=on]:bg-background data-[state=on]:text-foreground"
+          >
+            <Rows2 className="h-3 w-3 mr-1" />
+            Unified
+          </ToggleGroupItem>
+          <ToggleGroupItem
+            value="split"
+            aria-label="Side-by-side diff"
+            className="h-6 px-2 text-xs data-[state=on]:bg-background data-[state=on]:text-foreground"
+          >
+            <Columns2 className="h-3 w-3 mr-1" />
+            Split
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      {files.map((file, index) => (
+        <FileDiffView key={index} file={file} layout={layout} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import { forwardRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ChevronDown, ChevronUp, Filter, X } from 'lucide-react'
+import type { ConversationSearchOptions } from '@/lib/conversation-search'
+
+interface ConversationSearchBarProps {
+  options: ConversationSearchOptions
+  onChange: (options: ConversationSearchOptions) => void
+  toolNames: string[]
+  matchCount: number
+  occurrenceCount: number
+  currentMatch: number
+  error: string | null
+  onNext: () => void
+  onPrevious: () => void
+  onClose: () => void
+}
+
+const ROLES = ['user', 'assistant']
+const BLOCK_TYPES = ['text', 'reasoning', 'tool_use', 'tool_result', 'image']
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+}
+
+const ConversationSearchBar = forwardRef<HTMLInputElement, ConversationSearchBarProps>(function ConversationSearchBar(
+  { options, onChange, toolNames, matchCount, occurrenceCount, currentMatch, error, onNext, onPrevious, onClose },
+  inputRef
+) {
+  const facetCount = options.roles.length + options.types.length + options.tools.length + (options.errorsOnly ? 1 : 0)
+  const update = (patch: Partial<ConversationSearchOptions>) => onChange({ ...options, ...patch })
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b border-border bg-muted/40">
+      <Input
+        ref={inputRef}
+        autoFocus
+        value={options.query}
+        onChange={(e) => update({ query: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            if (e.shiftKey) onPrevious()
+            else onNext()
+          } else if (e.key === 'Escape') {
+            onClose()
+          }
+        }}
+        placeholder="Find in conversation…"
+        className={`h-7 text-xs flex-1 ${error ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+        title={error ?? undefined}
+      />
+      <Button
+        variant={options.caseSensitive ? 'default' : 'ghost'}
+        size="sm"
+        className="h-7 px-2 text-xs font-mono"
+        onClick={() => update({ caseSensitive: !options.caseSensitive })}
+        title="Match case"
+      >
+        Aa
+      </Button>
+      <Button
+        variant={options.regex ? 'default' : 'ghost'}
+        size="sm"
+        className="h-7 px-2 text-xs font-mono"
+        onClick={() => update({ regex: !options.regex })}
+        title="Use regular expression"
+      >
+        .*
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant={facetCount > 0 ? 'secondary' : 'ghost'} size="sm" className="h-7 px-2 text-xs">
+            <Filter className="h-3 w-3 mr-1" />
+            {facetCount > 0 ? facetCount : 'Filter'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="max-h-96 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs">Role</DropdownMenuLabel>
+          {ROLES.map((role) => (
+            <DropdownMenuCheckboxItem
+              key={role}
+              checked={options.roles.includes(role)}
+              onCheckedChange={() => update({ roles: toggle(options.roles, role) })}
+              onSelect={(e) => e.preventDefault()}
+              className="text-xs"
+            >
+              {role}
+            </DropdownMenuCheckboxItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs">Block type</DropdownMenuLabel>
+          {BLOCK_TYPES.map((type) => (
+            <DropdownMenuCheckboxItem
+              key={type}
+              checked={options.types.includes(type)}
+              onCheckedChange={() => update({ types: toggle(options.types, type) })}
+              onSelect={(e) => e.preventDefault()}
+              className="text-xs font-mono"
+            >
+              {type}
+            </DropdownMenuCheckboxItem>
+          ))}
+          {toolNames.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs">Tool</DropdownMenuLabel>
+              {toolNames.map((tool) => (
+                <DropdownMenuCheckboxItem
+                  key={tool}
+                  checked={options.tools.includes(tool)}
+                  onCheckedChange={() => update({ tools: toggle(options.tools, tool) })}
+                  onSelect={(e) => e.preventDefault()}
+                  className="text-xs font-mono"
+                >
+                  {tool}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuCheckboxItem
+            checked={options.errorsOnly}
+            onCheckedChange={(checked) => update({ errorsOnly: checked === true })}
+            onSelect={(e) => e.preventDefault()}
+            className="text-xs"
+          >
+            Errors only
+          </DropdownMenuCheckboxItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap min-w-[4.5rem] text-right" title={`${occurrenceCount} occurrences`}>
+        {error
+          ? 'Invalid regex'
+          : matchCount > 0
+            ? `${currentMatch + 1} / ${matchCount}`
+            : options.query || facetCount > 0 ? 'No results' : ''}
+      </span>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onPrevious} disabled={matchCount === 0} title="Previous match (Shift+Enter)">
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onNext} disabled={matchCount === 0} title="Next match (Enter)">
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close search (Esc)">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+})
+
+export default ConversationSearchBar
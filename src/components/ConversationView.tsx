@@ -1,13 +1,23 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
-import { X, Copy, ChevronDown, ChevronRight, ArrowDown, ClipboardList, Scissors, User, Bot } from 'lucide-react'
+import { useVirtualizer } from '@tanstack/react-virtual'
+import { X, Copy, ChevronDown, ChevronRight, ArrowDown, ClipboardList, Scissors, User, Bot, Search, Link, MessageSquarePlus, StickyNote } from 'lucide-react'
 import MessageBlock from './MessageBlock'
-import type { UIMessage } from '../types'
+import EnvironmentDiffView from './EnvironmentDiffView'
+import ConversationSearchBar from './ConversationSearchBar'
+import AnnotationPanel from './AnnotationPanel'
+import AnnotationDialog from './AnnotationDialog'
+import { buildSearchPattern, EMPTY_SEARCH, searchConversation, type ConversationSearchOptions } from '@/lib/conversation-search'
+import { clearMatches, paintMatches } from '@/lib/dom-highlight'
+import { expandXmlToolCalls } from '../../shared/xmlTools'
+import { diffEnvironment, getEnvironmentDetails, type EnvironmentChange } from '@/lib/environment-diff'
+import type { ViewOptions } from '@/lib/routes'
+import { annotationKey, annotationLocation, compareAnnotations, groupAnnotations, placeAnnotation, SEVERITY_CLASSES, worstSeverity } from '@/lib/annotations'
+import type { UIMessage, MessageLocation, SubtaskLink, Annotation, AnnotationDraft } from '../types'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
-import { ScrollArea } from '@/components/ui/scroll-area'
 import {
   Collapsible,
   CollapsibleContent,
@@ -30,6 +40,8 @@ interface ContentBlock {
   content?: string
   is_error?: boolean
   summary?: string[]
+  /** Virtual tool_use parsed from an XML tool call in assistant text */
+  xml?: boolean
 }
 
 interface Message {
@@ -44,6 +56,13 @@ interface Message {
   truncationParent?: string
 }
 
+interface ToolBlockLocation {
+  block: ContentBlock
+  message: Message
+  messageIndex: number
+  blockIndex: number
+}
+
 function normalizeContent(content: ContentBlock[] | string): ContentBlock[] {
   if (typeof content === 'string') {
     return [{ type: 'text', text: content }]
@@ -58,6 +77,25 @@ interface ConversationViewProps {
   messages: Message[]
   uiMessages?: UIMessage[] | null
   taskId: string
+  focusTarget?: MessageLocation | null
+  subtasks?: SubtaskLink[]
+  onOpenTask?: (taskId: string) => void
+  /** Toggles from the URL, taking precedence over stored preferences */
+  initialView?: ViewOptions
+  /** Message to scroll to on mount, ahead of the focus target */
+  initialScroll?: number
+  /** Blocks to open on mount */
+  initialOpenBlocks?: MessageLocation[]
+  onViewChange?: (view: ViewOptions) => void
+  onFocusChange?: (target: MessageLocation | null) => void
+  /** Reports the message at the top of the viewport, or undefined at the bottom */
+  onScrollChange?: (messageIndex: number | undefined) => void
+  onOpenBlocksChange?: (blocks: MessageLocation[]) => void
+  messageLink?: (target: MessageLocation) => string
+  /** Annotations are only offered when the conversation can store them */
+  annotations?: Annotation[]
+  onSaveAnnotation?: (draft: AnnotationDraft, id?: string) => Promise<void>
+  onDeleteAnnotation?: (id: string) => Promise<void>
   onClose: () => void
 }
 
@@ -123,13 +161,58 @@ function UIMessageContentBlock({ text, expanded: initialExpanded, badgeClass }:
   )
 }
 
-export default function ConversationView({ messages, uiMessages, taskId, onClose }: ConversationViewProps) {
-  const [expandAll, setExpandAll] = useState(false)
-  const [isAtBottom, setIsAtBottom] = useState(true)
-  const [filterCondensed, setFilterCondensed] = useState(true)
-  const [showUiMessages, setShowUiMessages] = useState(false)
+export default function ConversationView({
+  messages: rawMessages,
+  uiMessages,
+  taskId,
+  focusTarget,
+  subtasks,
+  onOpenTask,
+  initialView,
+  initialScroll,
+  initialOpenBlocks,
+  onViewChange,
+  onFocusChange,
+  onScrollChange,
+  onOpenBlocksChange,
+  messageLink,
+  annotations: storedAnnotations,
+  onSaveAnnotation,
+  onDeleteAnnotation,
+  onClose,
+}: ConversationViewProps) {
+  const [expandAll, setExpandAll] = useState(initialView?.expand ?? false)
+  const [isAtBottom, setIsAtBottom] = useState(initialScroll === undefined)
+  const [filterCondensed, setFilterCondensed] = useState(!initialView?.showHidden)
+  const [showUiMessages, setShowUiMessages] = useState(initialView?.ui ?? false)
+  const [showEnvironmentDiff, setShowEnvironmentDiff] = useState(
+    () => initialView?.env ?? localStorage.getItem('convo-viewer-env-diff') === 'true'
+  )
+  const [renderMarkdown, setRenderMarkdown] = useState(
+    () => initialView?.markdown ?? localStorage.getItem('convo-viewer-render-markdown') !== 'false'
+  )
+  // Keyed message.block, the same as the open= URL parameter
+  const [openBlocks, setOpenBlocks] = useState(
+    () => new Set(initialOpenBlocks?.map((block) => `${block.messageIndex}.${block.blockIndex}`))
+  )
   const scrollContainerRef = useRef<HTMLDivElement>(null)
-  const isInitialLoad = useRef(true)
+  // A restored scroll position wins over the focus target it was scrolled away from
+  const handledFocusTarget = useRef<MessageLocation | null>(initialScroll !== undefined ? focusTarget ?? null : null)
+  const restoredScroll = useRef(false)
+  const scrollReportTimer = useRef<number | undefined>(undefined)
+  // Search hits arrive through focusTarget, tool partner jumps are local
+  const [focus, setFocus] = useState<MessageLocation | null>(focusTarget ?? null)
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [searchOptions, setSearchOptions] = useState<ConversationSearchOptions>(EMPTY_SEARCH)
+  const [currentMatch, setCurrentMatch] = useState(0)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const [showAnnotations, setShowAnnotations] = useState(false)
+  const [annotationDraft, setAnnotationDraft] = useState<{ draft: AnnotationDraft; id?: string } | null>(null)
+  const [pairedTools, setPairedTools] = useState(
+    () => initialView?.paired ?? localStorage.getItem('convo-viewer-paired-tools') === 'true'
+  )
+
+  const messages = useMemo(() => expandXmlToolCalls(rawMessages), [rawMessages])
 
   const toolUsesMissingResults = useMemo(() => {
     const toolResultIds = new Set<string>()
@@ -198,6 +281,92 @@ export default function ConversationView({ messages, uiMessages, taskId, onClose
     | { type: 'api'; message: Message; ts: number }
     | { type: 'ui'; uiMsg: UIMessage; ts: number }
 
+  // Pair tool_use and tool_result blocks so each can render with, and link to, its counterpart
+  const { toolUses, toolResults } = useMemo(() => {
+    const toolUses = new Map<string, ToolBlockLocation>()
+    const toolResults = new Map<string, ToolBlockLocation>()
+    messages.forEach((message, messageIndex) => {
+      normalizeContent(message.content).forEach((block, blockIndex) => {
+        if (block.type === 'tool_use' && block.id) {
+          toolUses.set(block.id, { block, message, messageIndex, blockIndex })
+        }
+        if (block.type === 'tool_result' && block.tool_use_id) {
+          toolResults.set(block.tool_use_id, { block, message, messageIndex, blockIndex })
+        }
+      })
+    })
+    return { toolUses, toolResults }
+  }, [messages])
+
+  // Each environment_details compared with the one from the previous user turn
+  const environmentChanges = useMemo(() => {
+    const changes = new Map<Message, EnvironmentChange[]>()
+    let previous: string | null = null
+    for (const message of messages) {
+      if (message.role !== 'user') continue
+      const details = getEnvironmentDetails(normalizeContent(message.content))
+      if (details === null) continue
+      if (previous !== null) changes.set(message, diffEnvironment(previous, details))
+      previous = details
+    }
+    return changes
+  }, [messages])
+
+  const toolNames = useMemo(
+    () => new Map(Array.from(toolUses, ([id, location]) => [id, location.block.name ?? ''])),
+    [toolUses]
+  )
+
+  const { searchPattern, searchError } = useMemo(() => {
+    try {
+      return { searchPattern: buildSearchPattern(searchOptions), searchError: null }
+    } catch (err) {
+      return { searchPattern: null, searchError: err instanceof Error ? err.message : String(err) }
+    }
+  }, [searchOptions])
+
+  const searchMatches = useMemo(
+    () => searchOpen ? searchConversation(messages, searchOptions, searchPattern, toolNames) : [],
+    [searchOpen, messages, searchOptions, searchPattern, toolNames]
+  )
+
+  // In the paired layout a tool_result renders inside its tool_use card, so
+  // hits and focus on the result point at the card instead
+  const renderedLocation = useCallback((location: MessageLocation): MessageLocation => {
+    if (!pairedTools || location.blockIndex === undefined) return location
+    const message = messages[location.messageIndex]
+    const block = message && normalizeContent(message.content)[location.blockIndex]
+    const toolUse = block?.type === 'tool_result' && block.tool_use_id ? toolUses.get(block.tool_use_id) : undefined
+    return toolUse ? { messageIndex: toolUse.messageIndex, blockIndex: toolUse.blockIndex } : location
+  }, [pairedTools, messages, toolUses])
+
+  const matchedBlocks = useMemo(
+    () => new Set(searchMatches.map((match) => {
+      const { messageIndex, blockIndex } = renderedLocation(match)
+      return `${messageIndex}:${blockIndex}`
+    })),
+    [searchMatches, renderedLocation]
+  )
+
+  const shownFocus = useMemo(() => focus && renderedLocation(focus), [focus, renderedLocation])
+
+  const annotations = useMemo(
+    () => storedAnnotations?.map((annotation) => placeAnnotation(annotation, messages)).sort(compareAnnotations),
+    [storedAnnotations, messages]
+  )
+  const annotationsByTarget = useMemo(() => groupAnnotations(annotations ?? []), [annotations])
+
+  const subtaskByToolUse = useMemo(
+    () => new Map((subtasks ?? []).map((link) => [link.toolUseId, link.taskId])),
+    [subtasks]
+  )
+
+  // Positions in the unfiltered history, which is what search hits refer to
+  const messageIndexes = useMemo(
+    () => new Map(messages.map((message, index) => [message, index])),
+    [messages]
+  )
+
   const hybridMessages = useMemo((): HybridItem[] => {
     if (!showUiMessages || !uiMessages) return []
     
@@ -216,6 +385,272 @@ export default function ConversationView({ messages, uiMessages, taskId, onClose
     return items
   }, [showUiMessages, uiMessages, filteredMessages])
 
+  const hybridView = showUiMessages && hybridMessages.length > 0
+  const rows = useMemo<HybridItem[]>(
+    () => hybridView ? hybridMessages : filteredMessages.map((message) => ({ type: 'api', message, ts: message.ts })),
+    [hybridView, hybridMessages, filteredMessages]
+  )
+
+  // Only the messages around the viewport are mounted; the rest are measured estimates
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollContainerRef.current,
+    estimateSize: () => 180,
+    overscan: 4,
+    paddingStart: 16,
+    paddingEnd: 16,
+    gap: 12,
+    getItemKey: (index) => {
+      const row = rows[index]
+      return row.type === 'ui' ? `ui-${row.uiMsg.ts}-${index}` : `api-${messageIndexes.get(row.message)}`
+    },
+  })
+
+  function isFocusedMessage(message: Message) {
+    return shownFocus != null && messageIndexes.get(message) === shownFocus.messageIndex
+  }
+
+  function isFocusedBlock(message: Message, blockIndex: number) {
+    return isFocusedMessage(message) && shownFocus?.blockIndex === blockIndex
+  }
+
+  function goToMatch(index: number) {
+    if (searchMatches.length === 0) return
+    const wrapped = (index + searchMatches.length) % searchMatches.length
+    setCurrentMatch(wrapped)
+    const { messageIndex, blockIndex } = searchMatches[wrapped]
+    setFocus({ messageIndex, blockIndex })
+  }
+
+  function closeSearch() {
+    setSearchOpen(false)
+    setSearchOptions(EMPTY_SEARCH)
+  }
+
+  function isMatchedBlock(message: Message, blockIndex: number) {
+    return matchedBlocks.has(`${messageIndexes.get(message)}:${blockIndex}`)
+  }
+
+  function startAnnotation(message: Message, blockIndex: number | null) {
+    const messageIndex = messageIndexes.get(message)
+    if (messageIndex === undefined) return
+    setAnnotationDraft({ draft: { messageIndex, messageTs: message.ts, blockIndex, label: '', comment: '', severity: 'info' } })
+  }
+
+  async function deleteAnnotation(annotation: Annotation) {
+    if (!onDeleteAnnotation || !window.confirm('Delete this annotation?')) return
+    try {
+      await onDeleteAnnotation(annotation.id)
+    } catch (err) {
+      console.error('Failed to delete annotation:', err)
+    }
+  }
+
+  function showToolPartner(block: ContentBlock) {
+    const partner = block.type === 'tool_use' && block.id
+      ? toolResults.get(block.id)
+      : block.tool_use_id ? toolUses.get(block.tool_use_id) : undefined
+    if (!partner) return
+    setFocus({ messageIndex: partner.messageIndex, blockIndex: partner.blockIndex })
+  }
+
+  function setBlockOpen(message: Message, blockIndex: number, open: boolean) {
+    const key = `${messageIndexes.get(message)}.${blockIndex}`
+    setOpenBlocks((blocks) => {
+      if (blocks.has(key) === open) return blocks
+      const next = new Set(blocks)
+      if (open) next.add(key)
+      else next.delete(key)
+      return next
+    })
+  }
+
+  function renderMessageBlocks(message: Message) {
+    return (
+      <div className="space-y-3">
+        {showEnvironmentDiff && environmentChanges.has(message) && (
+          <EnvironmentDiffView changes={environmentChanges.get(message)!} />
+        )}
+        {normalizeContent(message.content).map((block, blockIndex) => {
+          const toolUse = block.type === 'tool_result' && block.tool_use_id ? toolUses.get(block.tool_use_id) : undefined
+          const result = block.type === 'tool_use' && block.id ? toolResults.get(block.id) : undefined
+          if (pairedTools && toolUse) return null
+
+          return (
+            <div key={blockIndex} data-block-index={blockIndex}>
+              <MessageBlock
+                block={block}
+                role={message.role}
+                expanded={
+                  expandAll
+                  || openBlocks.has(`${messageIndexes.get(message)}.${blockIndex}`)
+                  || isFocusedBlock(message, blockIndex)
+                  || isMatchedBlock(message, blockIndex)
+                }
+                onExpandedChange={(open) => setBlockOpen(message, blockIndex, open)}
+                markdown={renderMarkdown}
+                hideEnvironment={showEnvironmentDiff && environmentChanges.has(message)}
+                hasMissingResult={block.type === 'tool_use' && block.id ? toolUsesMissingResults.has(block.id) : false}
+                result={result?.block}
+                toolUse={toolUse?.block}
+                paired={pairedTools}
+                elapsedMs={result ? result.message.ts - message.ts : undefined}
+                onShowPartner={result || toolUse ? () => showToolPartner(block) : undefined}
+                subtaskId={block.type === 'tool_use' && block.id ? subtaskByToolUse.get(block.id) : undefined}
+                onOpenSubtask={onOpenTask}
+                annotations={annotationsByTarget.get(annotationKey(messageIndexes.get(message)!, blockIndex))}
+                onAnnotate={onSaveAnnotation ? () => startAnnotation(message, blockIndex) : undefined}
+              />
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  function renderUiMessage(uiMsg: UIMessage) {
+    const msgType = uiMsg.say || uiMsg.ask || 'unknown'
+
+    const getTypeBadgeClass = () => {
+      switch (msgType) {
+        case 'text': return 'bg-blue-600 text-white hover:bg-blue-700'
+        case 'user_feedback': return 'bg-cyan-600 text-white hover:bg-cyan-700'
+        case 'reasoning': return 'bg-purple-600 text-white hover:bg-purple-700'
+        case 'api_req_started': return 'bg-slate-600 text-white hover:bg-slate-700'
+        case 'completion_result': return 'bg-emerald-600 text-white hover:bg-emerald-700'
+        default: return 'bg-slate-600 text-white hover:bg-slate-700'
+      }
+    }
+
+    const typeBadgeClass = getTypeBadgeClass()
+    const isUserType = msgType === 'user_feedback'
+
+    return (
+      <div className="rounded-md p-4 border bg-background border-border">
+        <div className="flex items-center justify-between mb-3 pb-2 border-b border-border/50">
+          <div className="flex items-center gap-2">
+            {isUserType ? (
+              <span className="font-medium text-sm text-foreground">User</span>
+            ) : (
+              <Badge className={`text-xs ${typeBadgeClass}`}>
+                {msgType}
+              </Badge>
+            )}
+            <Badge className="text-xs bg-teal-600 text-white hover:bg-teal-700">
+              UI
+            </Badge>
+            {uiMsg.partial && (
+              <Badge className="text-xs bg-amber-600 text-white hover:bg-amber-700">
+                partial
+              </Badge>
+            )}
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {formatTime(uiMsg.ts)}
+          </span>
+        </div>
+
+        {uiMsg.text && (
+          <UIMessageContentBlock
+            text={uiMsg.text}
+            expanded={expandAll}
+            badgeClass={typeBadgeClass}
+          />
+        )}
+      </div>
+    )
+  }
+
+  function renderApiMessage(message: Message, hybrid: boolean) {
+    const messageAnnotations = annotationsByTarget.get(annotationKey(messageIndexes.get(message)!, null))
+
+    return (
+      <div
+        data-message-index={messageIndexes.get(message)}
+        className={`rounded-md p-4 border ${
+          isFocusedMessage(message) ? 'ring-2 ring-primary ' : ''
+        }${
+          message.isSummary
+            ? 'bg-violet-950/40 border-violet-800/50'
+            : message.isTruncationMarker
+              ? 'bg-orange-950/40 border-orange-800/50'
+              : 'bg-background border-border'
+        }`}
+      >
+        <div className="flex items-center justify-between mb-3 pb-2 border-b border-border/50">
+          <div className="flex items-center gap-2">
+            <span className={`font-medium text-sm ${
+              message.isSummary
+                ? 'text-violet-400'
+                : message.isTruncationMarker
+                  ? 'text-orange-400'
+                  : message.role === 'user' ? 'text-foreground' : 'text-muted-foreground'
+            }`}>
+              {message.isSummary
+                ? <><ClipboardList className="h-4 w-4 inline mr-1" />Summary</>
+                : message.isTruncationMarker
+                  ? <><Scissors className="h-4 w-4 inline mr-1" />Truncation</>
+                  : message.role === 'user' ? <><User className="h-4 w-4 inline mr-1" />User</> : <><Bot className="h-4 w-4 inline mr-1" />Assistant</>}
+            </span>
+            {hybrid && (
+              <Badge className="text-xs bg-blue-600 text-white hover:bg-blue-700">
+                API
+              </Badge>
+            )}
+            {message.condenseId && (
+              <Badge className="text-xs bg-violet-600 text-white hover:bg-violet-700">
+                condense: {message.condenseId.slice(0, 8)}…
+              </Badge>
+            )}
+            {message.truncationId && (
+              <Badge className="text-xs bg-orange-600 text-white hover:bg-orange-700">
+                truncation: {message.truncationId.slice(0, 8)}…
+              </Badge>
+            )}
+            {messageAnnotations && (
+              <Badge
+                className={`text-xs flex items-center gap-1 ${SEVERITY_CLASSES[worstSeverity(messageAnnotations)]}`}
+                title={messageAnnotations.map((annotation) => annotation.label || annotation.comment).join('\n')}
+              >
+                <StickyNote className="h-3 w-3" />
+                {messageAnnotations.length}
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            {onSaveAnnotation && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground"
+                onClick={() => startAnnotation(message, null)}
+                title="Annotate this message"
+              >
+                <MessageSquarePlus className="h-3 w-3" />
+              </Button>
+            )}
+            {messageLink && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground"
+                onClick={() => copyMessageLink(message)}
+                title="Copy link to this message"
+              >
+                <Link className="h-3 w-3" />
+              </Button>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {formatTime(message.ts)}
+            </span>
+          </div>
+        </div>
+
+        {renderMessageBlocks(message)}
+      </div>
+    )
+  }
+
   function formatTime(timestamp: number) {
     const date = new Date(timestamp)
     const ms = date.getMilliseconds().toString().padStart(3, '0')
@@ -228,13 +663,24 @@ export default function ConversationView({ messages, uiMessages, taskId, onClose
     return `${dateStr}, ${hour12}:${minutes}:${seconds}.${ms} ${ampm}`
   }
 
+  async function copyMessageLink(message: Message) {
+    const messageIndex = messageIndexes.get(message)
+    if (messageIndex === undefined || !messageLink) return
+    try {
+      await navigator.clipboard.writeText(messageLink({ messageIndex }))
+      setFocus({ messageIndex })
+    } catch (err) {
+      console.error('Failed to copy message link:', err)
+    }
+  }
+
   const copyConversation = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(JSON.stringify(messages, null, 2))
+      await navigator.clipboard.writeText(JSON.stringify(rawMessages, null, 2))
     } catch (err) {
       console.error('Failed to copy conversation:', err)
     }
-  }, [messages])
+  }, [rawMessages])
 
   const copyConversationStructure = useCallback(async () => {
     try {
@@ -266,31 +712,153 @@ export default function ConversationView({ messages, uiMessages, taskId, onClose
     }
   }, [messages])
 
-  const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
-    if (scrollContainerRef.current) {
-      scrollContainerRef.current.scrollTo({
-        top: scrollContainerRef.current.scrollHeight,
-        behavior
-      })
+  const scrollToBottom = useCallback(() => {
+    if (rows.length > 0) {
+      virtualizer.scrollToIndex(rows.length - 1, { align: 'end' })
     }
-  }, [])
+  }, [rows.length, virtualizer])
 
   const handleScroll = useCallback(() => {
     if (scrollContainerRef.current) {
       const { scrollTop, scrollHeight, clientHeight } = scrollContainerRef.current
       const atBottom = scrollHeight - scrollTop - clientHeight < 50
       setIsAtBottom(atBottom)
+
+      if (!onScrollChange) return
+      window.clearTimeout(scrollReportTimer.current)
+      scrollReportTimer.current = window.setTimeout(() => {
+        if (atBottom) {
+          onScrollChange(undefined)
+          return
+        }
+        const top = virtualizer.getVirtualItems().find((item) => item.end > scrollTop)
+        const row = top && rows[top.index]
+        if (row?.type === 'api') onScrollChange(messageIndexes.get(row.message))
+      }, 200)
     }
+  }, [onScrollChange, virtualizer, rows, messageIndexes])
+
+  useEffect(() => () => window.clearTimeout(scrollReportTimer.current), [])
+
+  useEffect(() => {
+    onViewChange?.({
+      ...(expandAll && { expand: true }),
+      ...(showUiMessages && { ui: true }),
+      ...(!filterCondensed && { showHidden: true }),
+      ...(pairedTools && { paired: true }),
+      ...(showEnvironmentDiff && { env: true }),
+      ...(!renderMarkdown && { markdown: false }),
+    })
+  }, [expandAll, showUiMessages, filterCondensed, pairedTools, showEnvironmentDiff, renderMarkdown])
+
+  useEffect(() => {
+    onFocusChange?.(focus)
+  }, [focus])
+
+  useEffect(() => {
+    onOpenBlocksChange?.([...openBlocks].map((key) => {
+      const [messageIndex, blockIndex] = key.split('.').map(Number)
+      return { messageIndex, blockIndex }
+    }))
+  }, [openBlocks])
+
+  useEffect(() => {
+    setFocus(focusTarget ?? null)
+  }, [focusTarget])
+
+  // Jump to the first match whenever the search itself changes, not on every poll
+  useEffect(() => {
+    setCurrentMatch(0)
+    if (searchMatches.length > 0) {
+      const { messageIndex, blockIndex } = searchMatches[0]
+      setFocus({ messageIndex, blockIndex })
+    }
+  }, [searchOptions])
+
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if ((event.ctrlKey || event.metaKey) && event.key === 'f') {
+        event.preventDefault()
+        setSearchOpen(true)
+        searchInputRef.current?.focus()
+        searchInputRef.current?.select()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
   }, [])
 
+  // Repaint highlights whenever rows mount, expand or re-render
+  useEffect(() => {
+    const container = scrollContainerRef.current
+    if (!container || !searchOpen || !searchPattern) {
+      clearMatches()
+      return
+    }
+
+    const current = searchMatches[currentMatch] && renderedLocation(searchMatches[currentMatch])
+    let frame = 0
+    const paint = () => {
+      frame = 0
+      const currentElement = current
+        ? container.querySelector(`[data-message-index="${current.messageIndex}"] [data-block-index="${current.blockIndex}"]`)
+        : null
+      paintMatches(container, searchPattern, currentElement)
+    }
+    paint()
+
+    const observer = new MutationObserver(() => {
+      if (!frame) frame = requestAnimationFrame(paint)
+    })
+    observer.observe(container, { childList: true, subtree: true, characterData: true })
+    return () => {
+      observer.disconnect()
+      if (frame) cancelAnimationFrame(frame)
+      clearMatches()
+    }
+  }, [searchOpen, searchPattern, searchMatches, currentMatch, renderedLocation])
+
+  useEffect(() => {
+    if (!shownFocus || handledFocusTarget.current === focus) return
+
+    const target = messages[shownFocus.messageIndex]
+    if (target && !filteredMessages.includes(target)) {
+      setFilterCondensed(false)
+      return
+    }
+
+    setIsAtBottom(false)
+    handledFocusTarget.current = focus
+
+    const rowIndex = rows.findIndex((row) => row.type === 'api' && row.message === target)
+    if (rowIndex === -1) return
+    virtualizer.scrollToIndex(rowIndex, { align: 'center' })
+
+    // The target only mounts once the virtualizer has scrolled to it
+    const timer = window.setTimeout(() => {
+      const messageElement = scrollContainerRef.current?.querySelector(
+        `[data-message-index="${shownFocus.messageIndex}"]`
+      )
+      const blockElement = shownFocus.blockIndex !== undefined
+        ? messageElement?.querySelector(`[data-block-index="${shownFocus.blockIndex}"]`)
+        : null
+      ;(blockElement ?? messageElement)?.scrollIntoView({ behavior: 'instant', block: 'center' })
+    }, 100)
+    return () => window.clearTimeout(timer)
+  }, [focus, shownFocus, messages, filteredMessages, rows, virtualizer])
+
+  // Shared links, back/forward and reloads return to where the reader left off
+  useEffect(() => {
+    if (restoredScroll.current || initialScroll === undefined) return
+    const rowIndex = rows.findIndex((row) => row.type === 'api' && messageIndexes.get(row.message) === initialScroll)
+    if (rowIndex === -1) return
+    restoredScroll.current = true
+    virtualizer.scrollToIndex(rowIndex, { align: 'start' })
+  }, [initialScroll, rows, messageIndexes, virtualizer])
+
   useEffect(() => {
     if (isAtBottom) {
-      if (isInitialLoad.current) {
-        scrollToBottom('instant')
-        isInitialLoad.current = false
-      } else {
-        scrollToBottom('smooth')
-      }
+      scrollToBottom()
     }
   }, [messages, isAtBottom, scrollToBottom])
 
@@ -335,6 +903,45 @@ export default function ConversationView({ messages, uiMessages, taskId, onClose
               {filterCondensed ? `${hiddenCount} Hidden` : `Hide ${hiddenCount}`}
             </Button>
           )}
+          <div className="flex items-center gap-2">
+            <Label htmlFor="paired-toggle" className="text-xs text-muted-foreground cursor-pointer">
+              Paired
+            </Label>
+            <Switch
+              id="paired-toggle"
+              checked={pairedTools}
+              onCheckedChange={(checked) => {
+                setPairedTools(checked)
+                localStorage.setItem('convo-viewer-paired-tools', String(checked))
+              }}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="env-diff-toggle" className="text-xs text-muted-foreground cursor-pointer">
+              Env diff
+            </Label>
+            <Switch
+              id="env-diff-toggle"
+              checked={showEnvironmentDiff}
+              onCheckedChange={(checked) => {
+                setShowEnvironmentDiff(checked)
+                localStorage.setItem('convo-viewer-env-diff', String(checked))
+              }}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="markdown-toggle" className="text-xs text-muted-foreground cursor-pointer">
+              Markdown
+            </Label>
+            <Switch
+              id="markdown-toggle"
+              checked={renderMarkdown}
+              onCheckedChange={(checked) => {
+                setRenderMarkdown(checked)
+                localStorage.setItem('convo-viewer-render-markdown', String(checked))
+              }}
+            />
+          </div>
           <div className="flex items-center gap-2">
             <Label htmlFor="expand-toggle" className="text-xs text-muted-foreground cursor-pointer">
               Expand
@@ -345,6 +952,28 @@ export default function ConversationView({ messages, uiMessages, taskId, onClose
               onCheckedChange={setExpandAll}
             />
           </div>
+          {annotations && (
+            <Button
+              variant={showAnnotations ? 'secondary' : 'outline'}
+              size="sm"
+              className="text-xs h-7"
+              onClick={() => setShowAnnotations(!showAnnotations)}
+              title="Show annotations"
+            >
+              <StickyNote className="h-3 w-3 mr-1" />
+              {annotations.length > 0 ? annotations.length : 'Notes'}
+            </Button>
+          )}
+          <Button
+            variant={searchOpen ? 'secondary' : 'outline'}
+            size="sm"
+            className="text-xs h-7"
+            onClick={() => (searchOpen ? closeSearch() : setSearchOpen(true))}
+            title="Find in conversation (Ctrl+F)"
+          >
+            <Search className="h-3 w-3 mr-1" />
+            Find
+          </Button>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="sm" className="text-xs h-7">
@@ -372,202 +1001,82 @@ export default function ConversationView({ messages, uiMessages, taskId, onClose
           </Button>
         </div>
       </CardHeader>
+
+      {searchOpen && (
+        <ConversationSearchBar
+          ref={searchInputRef}
+          options={searchOptions}
+          onChange={setSearchOptions}
+          toolNames={Array.from(new Set(toolNames.values())).filter(Boolean).sort()}
+          matchCount={searchMatches.length}
+          occurrenceCount={searchMatches.reduce((sum, match) => sum + match.count, 0)}
+          currentMatch={currentMatch}
+          error={searchError}
+          onNext={() => goToMatch(currentMatch + 1)}
+          onPrevious={() => goToMatch(currentMatch - 1)}
+          onClose={closeSearch}
+        />
+      )}
       
-      <CardContent className="p-0 relative">
-        <ScrollArea className="h-[calc(100vh-200px)]">
+      <CardContent className="p-0 flex">
+        <div className="relative flex-1 min-w-0">
           <div
             ref={scrollContainerRef}
             onScroll={handleScroll}
-            className="p-4 space-y-3"
+            className="h-[calc(100vh-200px)] overflow-y-auto"
           >
-            {showUiMessages && hybridMessages.length > 0 ? (
-              hybridMessages.map((item, index) => {
-                if (item.type === 'ui') {
-                  const uiMsg = item.uiMsg
-                  const msgType = uiMsg.say || uiMsg.ask || 'unknown'
-                  
-                  const getTypeBadgeClass = () => {
-                    switch (msgType) {
-                      case 'text': return 'bg-blue-600 text-white hover:bg-blue-700'
-                      case 'user_feedback': return 'bg-cyan-600 text-white hover:bg-cyan-700'
-                      case 'reasoning': return 'bg-purple-600 text-white hover:bg-purple-700'
-                      case 'api_req_started': return 'bg-slate-600 text-white hover:bg-slate-700'
-                      case 'completion_result': return 'bg-emerald-600 text-white hover:bg-emerald-700'
-                      default: return 'bg-slate-600 text-white hover:bg-slate-700'
-                    }
-                  }
-                  
-                  const typeBadgeClass = getTypeBadgeClass()
-                  const isUserType = msgType === 'user_feedback'
-                  
-                  return (
-                    <div
-                      key={`ui-${uiMsg.ts}-${index}`}
-                      className="rounded-md p-4 border bg-background border-border"
-                    >
-                      <div className="flex items-center justify-between mb-3 pb-2 border-b border-border/50">
-                        <div className="flex items-center gap-2">
-                          {isUserType ? (
-                            <span className="font-medium text-sm text-foreground">User</span>
-                          ) : (
-                            <Badge className={`text-xs ${typeBadgeClass}`}>
-                              {msgType}
-                            </Badge>
-                          )}
-                          <Badge className="text-xs bg-teal-600 text-white hover:bg-teal-700">
-                            UI
-                          </Badge>
-                          {uiMsg.partial && (
-                            <Badge className="text-xs bg-amber-600 text-white hover:bg-amber-700">
-                              partial
-                            </Badge>
-                          )}
-                        </div>
-                        <span className="text-xs text-muted-foreground">
-                          {formatTime(uiMsg.ts)}
-                        </span>
-                      </div>
-                      
-                      {uiMsg.text && (
-                        <UIMessageContentBlock
-                          text={uiMsg.text}
-                          expanded={expandAll}
-                          badgeClass={typeBadgeClass}
-                        />
-                      )}
-                    </div>
-                  )
-                } else {
-                  const message = item.message
-                  return (
-                    <div
-                      key={`api-${message.ts}-${index}`}
-                      className={`rounded-md p-4 border ${
-                        message.isSummary
-                          ? 'bg-violet-950/40 border-violet-800/50'
-                          : message.isTruncationMarker
-                            ? 'bg-orange-950/40 border-orange-800/50'
-                            : 'bg-background border-border'
-                      }`}
-                    >
-                      <div className="flex items-center justify-between mb-3 pb-2 border-b border-border/50">
-                        <div className="flex items-center gap-2">
-                          <span className={`font-medium text-sm ${
-                            message.isSummary
-                              ? 'text-violet-400'
-                              : message.isTruncationMarker
-                                ? 'text-orange-400'
-                                : message.role === 'user' ? 'text-foreground' : 'text-muted-foreground'
-                          }`}>
-                            {message.isSummary
-                              ? <><ClipboardList className="h-4 w-4 inline mr-1" />Summary</>
-                              : message.isTruncationMarker
-                                ? <><Scissors className="h-4 w-4 inline mr-1" />Truncation</>
-                                : message.role === 'user' ? <><User className="h-4 w-4 inline mr-1" />User</> : <><Bot className="h-4 w-4 inline mr-1" />Assistant</>}
-                          </span>
-                          <Badge className="text-xs bg-blue-600 text-white hover:bg-blue-700">
-                            API
-                          </Badge>
-                          {message.condenseId && (
-                            <Badge className="text-xs bg-violet-600 text-white hover:bg-violet-700">
-                              condense: {message.condenseId.slice(0, 8)}…
-                            </Badge>
-                          )}
-                          {message.truncationId && (
-                            <Badge className="text-xs bg-orange-600 text-white hover:bg-orange-700">
-                              truncation: {message.truncationId.slice(0, 8)}…
-                            </Badge>
-                          )}
-                        </div>
-                        <span className="text-xs text-muted-foreground">
-                          {formatTime(message.ts)}
-                        </span>
-                      </div>
-                      
-                      <div className="space-y-3">
-                        {normalizeContent(message.content).map((block, blockIndex) => (
-                          <MessageBlock
-                            key={blockIndex}
-                            block={block}
-                            expanded={expandAll}
-                            hasMissingResult={block.type === 'tool_use' && block.id ? toolUsesMissingResults.has(block.id) : false}
-                          />
-                        ))}
-                      </div>
-                    </div>
-                  )
-                }
-              })
-            ) : (
-              filteredMessages.map((message, index) => (
-                <div
-                  key={index}
-                  className={`rounded-md p-4 border ${
-                    message.isSummary
-                      ? 'bg-violet-950/40 border-violet-800/50'
-                      : message.isTruncationMarker
-                        ? 'bg-orange-950/40 border-orange-800/50'
-                        : 'bg-background border-border'
-                  }`}
-                >
-                  <div className="flex items-center justify-between mb-3 pb-2 border-b border-border/50">
-                    <div className="flex items-center gap-2">
-                      <span className={`font-medium text-sm ${
-                        message.isSummary
-                          ? 'text-violet-400'
-                          : message.isTruncationMarker
-                            ? 'text-orange-400'
-                            : message.role === 'user' ? 'text-foreground' : 'text-muted-foreground'
-                      }`}>
-                        {message.isSummary
-                          ? <><ClipboardList className="h-4 w-4 inline mr-1" />Summary</>
-                          : message.isTruncationMarker
-                            ? <><Scissors className="h-4 w-4 inline mr-1" />Truncation</>
-                            : message.role === 'user' ? <><User className="h-4 w-4 inline mr-1" />User</> : <><Bot className="h-4 w-4 inline mr-1" />Assistant</>}
-                      </span>
-                      {message.condenseId && (
-                        <Badge className="text-xs bg-violet-600 text-white hover:bg-violet-700">
-                          condense: {message.condenseId.slice(0, 8)}…
-                        </Badge>
-                      )}
-                      {message.truncationId && (
-                        <Badge className="text-xs bg-orange-600 text-white hover:bg-orange-700">
-                          truncation: {message.truncationId.slice(0, 8)}…
-                        </Badge>
-                      )}
-                    </div>
-                    <span className="text-xs text-muted-foreground">
-                      {formatTime(message.ts)}
-                    </span>
-                  </div>
-                  
-                  <div className="space-y-3">
-                    {normalizeContent(message.content).map((block, blockIndex) => (
-                      <MessageBlock
-                        key={blockIndex}
-                        block={block}
-                        expanded={expandAll}
-                        hasMissingResult={block.type === 'tool_use' && block.id ? toolUsesMissingResults.has(block.id) : false}
-                      />
-                    ))}
+            <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualizer.getVirtualItems().map((virtualItem) => {
+                const row = rows[virtualItem.index]
+                return (
+                  <div
+                    key={virtualItem.key}
+                    data-index={virtualItem.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute left-4 right-4 top-0"
+                    style={{ transform: `translateY(${virtualItem.start}px)` }}
+                  >
+                    {row.type === 'ui' ? renderUiMessage(row.uiMsg) : renderApiMessage(row.message, hybridView)}
                   </div>
-                </div>
-              ))
-            )}
+                )
+              })}
+            </div>
           </div>
-        </ScrollArea>
-        
-        {!isAtBottom && (
-          <Button
-            variant="secondary"
-            size="icon"
-            onClick={() => scrollToBottom()}
-            className="absolute bottom-4 right-6 rounded-full shadow-lg"
-          >
-            <ArrowDown className="h-4 w-4" />
-          </Button>
+          
+          {!isAtBottom && (
+            <Button
+              variant="secondary"
+              size="icon"
+              onClick={scrollToBottom}
+              className="absolute bottom-4 right-6 rounded-full shadow-lg"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {showAnnotations && annotations && (
+          <AnnotationPanel
+            annotations={annotations}
+            onSelect={(annotation) => setFocus(annotationLocation(annotation))}
+            onEdit={(annotation) => setAnnotationDraft({
+              draft: { ...annotation, messageTs: annotation.messageTs ?? messages[annotation.messageIndex]?.ts },
+              id: annotation.id,
+            })}
+            onDelete={deleteAnnotation}
+            onClose={() => setShowAnnotations(false)}
+          />
         )}
       </CardContent>
+
+      {onSaveAnnotation && (
+        <AnnotationDialog
+          draft={annotationDraft?.draft ?? null}
+          editing={annotationDraft?.id !== undefined}
+          onSave={(draft) => onSaveAnnotation(draft, annotationDraft?.id)}
+          onClose={() => setAnnotationDraft(null)}
+        />
+      )}
     </Card>
   )
 }
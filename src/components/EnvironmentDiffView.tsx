@@ -0,0 +1,75 @@
+import { useState } from 'react'
+import { MonitorCog } from 'lucide-react'
+import type { EnvironmentChange } from '@/lib/environment-diff'
+
+interface EnvironmentDiffViewProps {
+  changes: EnvironmentChange[]
+}
+
+// Items listed per side before the rest is folded behind a "more" button
+const MAX_ITEMS = 8
+
+function ItemList({ items, sign }: { items: string[]; sign: '+' | '-' }) {
+  const [showAll, setShowAll] = useState(false)
+  const visible = showAll ? items : items.slice(0, MAX_ITEMS)
+  const color = sign === '+' ? 'text-emerald-400' : 'text-red-400'
+
+  return (
+    <>
+      {visible.map((item, i) => (
+        <div key={i} className={`${color} truncate`} title={item}>
+          <span className="select-none">{sign} </span>
+          {item}
+        </div>
+      ))}
+      {items.length > visible.length && (
+        <button onClick={() => setShowAll(true)} className="text-muted-foreground hover:text-foreground hover:underline">
+          {items.length - visible.length} more…
+        </button>
+      )}
+    </>
+  )
+}
+
+function ChangeView({ change }: { change: EnvironmentChange }) {
+  // Single-value panels such as the mode or cost read better as "old → new"
+  if (change.kind === 'changed' && change.added.length === 1 && change.removed.length === 1) {
+    return (
+      <div className="flex items-baseline gap-2 min-w-0">
+        <span className="font-medium text-foreground/80 shrink-0">{change.panel}</span>
+        <span className="text-red-400 line-through truncate">{change.removed[0]}</span>
+        <span className="text-muted-foreground shrink-0">→</span>
+        <span className="text-emerald-400 truncate">{change.added[0]}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-w-0">
+      <div className="font-medium text-foreground/80">
+        {change.panel}
+        {change.kind !== 'changed' && (
+          <span className="ml-2 font-normal text-muted-foreground">({change.kind})</span>
+        )}
+      </div>
+      <div className="pl-3 font-mono">
+        <ItemList items={change.removed} sign="-" />
+        <ItemList items={change.added} sign="+" />
+      </div>
+    </div>
+  )
+}
+
+export default function EnvironmentDiffView({ changes }: EnvironmentDiffViewProps) {
+  return (
+    <div className="rounded border border-dashed border-border bg-muted/40 px-3 py-2 text-xs space-y-1.5">
+      <div className="flex items-center gap-2 font-semibold text-muted-foreground">
+        <MonitorCog className="h-3.5 w-3.5" />
+        {changes.length > 0 ? 'Environment changes' : 'Environment unchanged'}
+      </div>
+      {changes.map((change, index) => (
+        <ChangeView key={index} change={change} />
+      ))}
+    </div>
+  )
+}
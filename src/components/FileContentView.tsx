@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, Check, Copy, Download, FileCode, Info } from 'lucide-react'
+import { countLines, type FileSection } from '@/lib/file-content'
+import { getLanguageForPath } from '@/lib/languages'
+import { codeStyle } from '@/lib/syntax-theme'
+import LazyHighlighter from './LazyHighlighter'
+
+interface FileContentViewProps {
+  file: FileSection
+}
+
+export default function FileContentView({ file }: FileContentViewProps) {
+  const [copied, setCopied] = useState(false)
+  const lineCount = countLines(file.content)
+  const fileName = file.path.split(/[\\/]/).pop() || 'file.txt'
+
+  async function copyContent(event: React.MouseEvent) {
+    event.stopPropagation()
+    try {
+      await navigator.clipboard.writeText(file.content)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (err) {
+      console.error('Failed to copy file content:', err)
+    }
+  }
+
+  function downloadContent(event: React.MouseEvent) {
+    event.stopPropagation()
+    const blob = new Blob([file.content], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = fileName
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="rounded border border-border bg-background overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border bg-muted/60 text-xs">
+        <FileCode className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        <span className="font-mono text-foreground/90 truncate">{file.path || 'unknown file'}</span>
+        <span className="text-muted-foreground shrink-0">
+          {file.lines ? `lines ${file.lines}` : `${lineCount} ${lineCount === 1 ? 'line' : 'lines'}`}
+        </span>
+        <div className="ml-auto flex items-center gap-1 shrink-0">
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={copyContent} disabled={!file.content}>
+            {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={downloadContent} disabled={!file.content}>
+            <Download className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+      {file.error && (
+        <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-destructive-foreground bg-destructive/20">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          {file.error}
+        </div>
+      )}
+      {file.notice && (
+        <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-sky-300 bg-sky-950/40">
+          <Info className="h-3 w-3 shrink-0" />
+          {file.notice}
+        </div>
+      )}
+      {file.content && (
+        <LazyHighlighter
+          language={getLanguageForPath(file.path)}
+          style={codeStyle}
+          showLineNumbers
+          startingLineNumber={file.startLine}
+          lineNumberStyle={{ minWidth: '3em', color: 'hsl(var(--muted-foreground))', opacity: 0.6 }}
+          customStyle={{
+            margin: 0,
+            padding: '0.5rem 0',
+            fontSize: '0.75rem',
+            background: 'transparent',
+            maxHeight: '32rem',
+            overflow: 'auto',
+          }}
+          codeTagProps={{ style: { background: 'transparent' } }}
+        >
+          {file.content}
+        </LazyHighlighter>
+      )}
+    </div>
+  )
+}
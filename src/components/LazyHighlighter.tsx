@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState, type ComponentProps } from 'react'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+
+type LazyHighlighterProps = ComponentProps<typeof SyntaxHighlighter> & {
+  children: string
+}
+
+// Start highlighting a little before the code scrolls into view
+const ROOT_MARGIN = '400px'
+
+/**
+ * SyntaxHighlighter that renders plain text until it nears the viewport.
+ * Tokenizing is the expensive part of opening a long conversation with
+ * everything expanded, and most of it is never looked at.
+ */
+export default function LazyHighlighter({ children, customStyle, ...props }: LazyHighlighterProps) {
+  const placeholderRef = useRef<HTMLPreElement>(null)
+  const [visible, setVisible] = useState(false)
+
+  useEffect(() => {
+    const element = placeholderRef.current
+    if (visible || !element) return
+    if (typeof IntersectionObserver === 'undefined') {
+      setVisible(true)
+      return
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setVisible(true)
+      },
+      { rootMargin: ROOT_MARGIN }
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [visible])
+
+  if (visible) {
+    return (
+      <SyntaxHighlighter customStyle={customStyle} {...props}>
+        {children}
+      </SyntaxHighlighter>
+    )
+  }
+
+  return (
+    <pre
+      ref={placeholderRef}
+      className="font-mono text-foreground/80"
+      style={{ ...customStyle, whiteSpace: props.wrapLongLines ? 'pre-wrap' : 'pre', overflow: 'hidden' }}
+    >
+      {children}
+    </pre>
+  )
+}
@@ -0,0 +1,105 @@
+import { memo } from 'react'
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { codeStyle } from '@/lib/syntax-theme'
+import LazyHighlighter from './LazyHighlighter'
+
+interface MarkdownNode {
+  type: string
+  value?: string
+  lang?: string | null
+  children?: MarkdownNode[]
+}
+
+/**
+ * Never render embedded HTML. Model output is full of XML-ish tags
+ * (`<thinking>`, legacy tool calls) that should stay visible, so raw HTML
+ * blocks become code blocks and inline HTML becomes plain text.
+ */
+function remarkHtmlAsText() {
+  const visit = (node: MarkdownNode, isBlock: boolean) => {
+    node.children?.forEach((child, index) => {
+      if (child.type === 'html') {
+        node.children![index] = isBlock
+          ? { type: 'code', lang: 'markup', value: child.value ?? '' }
+          : { type: 'text', value: child.value ?? '' }
+      } else {
+        visit(child, child.type === 'blockquote' || child.type === 'listItem')
+      }
+    })
+  }
+  return (tree: MarkdownNode) => visit(tree, true)
+}
+
+const components: Components = {
+  code({ node: _node, className, children, ...props }) {
+    const language = className?.match(/language-([\w-]+)/)?.[1]
+    const text = String(children ?? '')
+    if (!language && !text.includes('\n')) {
+      return (
+        <code className="px-1 py-0.5 rounded bg-background border border-border text-[0.85em]" {...props}>
+          {children}
+        </code>
+      )
+    }
+    return (
+      <LazyHighlighter
+        language={language ?? 'text'}
+        style={codeStyle}
+        customStyle={{
+          margin: 0,
+          padding: '0.5rem',
+          borderRadius: '0.25rem',
+          fontSize: '0.75rem',
+          background: 'hsl(var(--background))',
+        }}
+        codeTagProps={{ style: { background: 'transparent' } }}
+      >
+        {text.replace(/\n$/, '')}
+      </LazyHighlighter>
+    )
+  },
+  // SyntaxHighlighter renders its own <pre>
+  pre: ({ children }) => <div className="my-2 rounded border border-border overflow-hidden">{children}</div>,
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  h1: ({ children }) => <h1 className="text-lg font-semibold mt-3 mb-2">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-base font-semibold mt-3 mb-2">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-semibold mt-3 mb-1">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-sm font-medium mt-2 mb-1">{children}</h4>,
+  p: ({ children }) => <p className="my-2 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="my-2 ml-5 list-disc space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 ml-5 list-decimal space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 border-l-2 border-border pl-3 text-muted-foreground">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-3 border-border" />,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="text-xs border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-border bg-muted px-2 py-1 text-left font-semibold">{children}</th>,
+  td: ({ children }) => <td className="border border-border px-2 py-1 align-top">{children}</td>,
+  img: ({ src, alt }) => <span className="text-muted-foreground">[image: {alt || src}]</span>,
+}
+
+interface MarkdownProps {
+  children: string
+  className?: string
+}
+
+function Markdown({ children, className }: MarkdownProps) {
+  return (
+    <div className={`text-sm break-words ${className ?? ''}`}>
+      <ReactMarkdown remarkPlugins={[remarkGfm, remarkHtmlAsText]} components={components}>
+        {children}
+      </ReactMarkdown>
+    </div>
+  )
+}
+
+export default memo(Markdown)
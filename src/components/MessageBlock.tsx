@@ -1,14 +1,27 @@
-import { useState, useEffect } from 'react'
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
-import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import { useState, useEffect, useMemo } from 'react'
 import { Badge } from '@/components/ui/badge'
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
-import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
+import { AlertTriangle, ChevronDown, ChevronRight, Clock, CornerDownRight, Code2, FileText, MessageSquarePlus, StickyNote } from 'lucide-react'
 import { getBadgeVariant } from '@/lib/block-styles'
+import { parseApplyDiffInput } from '@/lib/apply-diff'
+import { codeStyle } from '@/lib/syntax-theme'
+import { parseReadFileResult, stripLineNumbers, type FileSection } from '@/lib/file-content'
+import { getToolResultText, isFailedToolResult } from '@/lib/tool-results'
+import { formatDuration } from '@/lib/format'
+import { stripAnsi } from '@/lib/ansi'
+import { parseTaggedText } from '@/lib/roo-tags'
+import { SEVERITY_CLASSES, worstSeverity } from '@/lib/annotations'
+import type { Annotation } from '../types'
+import ApplyDiffView from './ApplyDiffView'
+import FileContentView from './FileContentView'
+import TerminalView from './TerminalView'
+import Markdown from './Markdown'
+import UserTextView from './UserTextView'
+import LazyHighlighter from './LazyHighlighter'
 
 interface ContentBlock {
   type: string
@@ -20,6 +33,8 @@ interface ContentBlock {
   content?: string
   is_error?: boolean
   summary?: string[]
+  /** Virtual tool_use parsed from an XML tool call in assistant text */
+  xml?: boolean
   source?: {
     type: string
     media_type?: string
@@ -29,17 +44,70 @@ interface ContentBlock {
 
 interface MessageBlockProps {
   block: ContentBlock
+  role?: string
   expanded: boolean
+  /** Called when the reader opens or closes the block */
+  onExpandedChange?: (expanded: boolean) => void
   hasMissingResult?: boolean
+  markdown?: boolean
+  hideEnvironment?: boolean
+  result?: ContentBlock
+  toolUse?: ContentBlock
+  paired?: boolean
+  elapsedMs?: number
+  onShowPartner?: () => void
+  subtaskId?: string
+  onOpenSubtask?: (taskId: string) => void
+  annotations?: Annotation[]
+  onAnnotate?: () => void
 }
 
-export default function MessageBlock({ block, expanded: initialExpanded, hasMissingResult }: MessageBlockProps) {
+function getFileSections(block: ContentBlock, toolUse?: ContentBlock): FileSection[] {
+  if (block.type === 'tool_use' && block.name === 'write_to_file') {
+    const { path, content } = block.input ?? {}
+    if (typeof content !== 'string') return []
+    return [{ path: typeof path === 'string' ? path : '', content, startLine: 1 }]
+  }
+
+  if (block.type === 'tool_result' && toolUse?.name === 'read_file') {
+    const text = getToolResultText(block)
+    const sections = parseReadFileResult(text)
+    if (sections) return sections
+
+    // Older Roo versions returned the bare numbered content for a single path
+    const path = toolUse.input?.path
+    if (typeof path === 'string' && text) return [{ path, ...stripLineNumbers(text) }]
+  }
+
+  return []
+}
+
+export default function MessageBlock({ block, role, expanded: initialExpanded, onExpandedChange, hasMissingResult, markdown = true, hideEnvironment, result, toolUse, paired, elapsedMs, onShowPartner, subtaskId, onOpenSubtask, annotations, onAnnotate }: MessageBlockProps) {
   const [isExpanded, setIsExpanded] = useState(initialExpanded)
+  const [renderMarkdown, setRenderMarkdown] = useState(markdown)
+
+  const diffFiles = useMemo(
+    () => block.type === 'tool_use' && block.name === 'apply_diff' ? parseApplyDiffInput(block.input) : [],
+    [block]
+  )
+
+  const fileSections = useMemo(() => getFileSections(block, toolUse), [block, toolUse])
+
+  const taggedSections = useMemo(() => {
+    if (role !== 'user' || block.type !== 'text' || !block.text) return null
+    const sections = parseTaggedText(block.text)
+    return sections && hideEnvironment ? sections.filter((section) => section.tag !== 'environment_details') : sections
+  }, [block, role, hideEnvironment])
 
   useEffect(() => {
     setIsExpanded(initialExpanded)
   }, [initialExpanded])
 
+  // The global toggle resets any per-block choice
+  useEffect(() => {
+    setRenderMarkdown(markdown)
+  }, [markdown])
+
   function getPreviewText(): string {
     const maxLength = 100
     let text = ''
@@ -53,7 +121,7 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
         text = block.input ? JSON.stringify(block.input) : ''
         break
       case 'tool_result':
-        text = block.content || ''
+        text = stripAnsi(getToolResultText(block))
         break
       case 'image':
         return '[image]'
@@ -66,6 +134,32 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
     return cleaned.slice(0, maxLength) + '…'
   }
 
+  // The trigger is itself a button, so the partner link is a span that stops the toggle
+  function renderPartnerLink(label: string, title: string) {
+    if (!onShowPartner) {
+      return <span className="text-xs text-muted-foreground font-mono shrink-0">{label}</span>
+    }
+    return (
+      <span
+        role="link"
+        tabIndex={0}
+        title={title}
+        onClick={(event) => {
+          event.stopPropagation()
+          onShowPartner()
+        }}
+        onKeyDown={(event) => {
+          if (event.key !== 'Enter') return
+          event.stopPropagation()
+          onShowPartner()
+        }}
+        className="text-xs text-muted-foreground font-mono shrink-0 underline decoration-dotted underline-offset-2 hover:text-foreground cursor-pointer"
+      >
+        {label}
+      </span>
+    )
+  }
+
   function renderBlockHeader() {
     return (
       <div className="flex items-center gap-2 flex-wrap">
@@ -75,11 +169,23 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
         {block.name && (
           <span className="text-sm font-mono text-foreground/80 shrink-0">{block.name}</span>
         )}
-        {block.id && (
-          <span className="text-xs text-muted-foreground font-mono shrink-0">{block.id}</span>
+        {block.xml && (
+          <Badge variant="outline" className="text-xs font-normal shrink-0" title="Parsed from an XML tool call in the assistant text">
+            XML
+          </Badge>
+        )}
+        {block.id && !block.xml && renderPartnerLink(block.id, 'Show result')}
+        {block.tool_use_id && renderPartnerLink(`ref: ${block.tool_use_id}`, 'Show tool call')}
+        {paired && result && isFailedToolResult(result) && (
+          <Badge variant="destructive" className="text-xs font-medium shrink-0">
+            Error
+          </Badge>
         )}
-        {block.tool_use_id && (
-          <span className="text-xs text-muted-foreground font-mono shrink-0">ref: {block.tool_use_id}</span>
+        {elapsedMs !== undefined && (
+          <span className="text-xs text-muted-foreground shrink-0 flex items-center gap-1" title="Time until the result arrived">
+            <Clock className="h-3 w-3" />
+            {formatDuration(elapsedMs)}
+          </span>
         )}
         {block.is_error && (
           <Badge variant="destructive" className="text-xs font-medium shrink-0">
@@ -92,12 +198,40 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
             Missing Result
           </Badge>
         )}
+        {annotations && annotations.length > 0 && (
+          <Badge
+            className={`text-xs font-medium flex items-center gap-1 shrink-0 ${SEVERITY_CLASSES[worstSeverity(annotations)]}`}
+            title={annotations.map((annotation) => annotation.label || annotation.comment).join('\n')}
+          >
+            <StickyNote className="h-3 w-3" />
+            {annotations.length}
+          </Badge>
+        )}
         {!isExpanded && (
           <span className="text-xs text-muted-foreground truncate min-w-0 flex-1">
             {getPreviewText()}
           </span>
         )}
-        <span className="text-xs text-muted-foreground shrink-0 ml-auto flex items-center gap-1">
+        {onAnnotate && (
+          <span
+            role="button"
+            tabIndex={0}
+            title="Annotate this block"
+            onClick={(event) => {
+              event.stopPropagation()
+              onAnnotate()
+            }}
+            onKeyDown={(event) => {
+              if (event.key !== 'Enter') return
+              event.stopPropagation()
+              onAnnotate()
+            }}
+            className="text-muted-foreground hover:text-foreground shrink-0 ml-auto cursor-pointer"
+          >
+            <MessageSquarePlus className="h-3.5 w-3.5" />
+          </span>
+        )}
+        <span className={`text-xs text-muted-foreground shrink-0 flex items-center gap-1 ${onAnnotate ? '' : 'ml-auto'}`}>
           {isExpanded ? (
             <>
               <ChevronDown className="h-3 w-3" />
@@ -114,23 +248,48 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
     )
   }
 
+  function renderText(text: string, preClassName: string, markdownClassName: string, rendered?: React.ReactNode) {
+    return (
+      <div className="relative group">
+        <button
+          onClick={() => setRenderMarkdown(!renderMarkdown)}
+          className="absolute top-1.5 right-1.5 z-[1] flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px] text-muted-foreground bg-muted/80 opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+          title={renderMarkdown ? 'Show raw source' : 'Render Markdown'}
+        >
+          {renderMarkdown ? <Code2 className="h-3 w-3" /> : <FileText className="h-3 w-3" />}
+          {renderMarkdown ? 'Raw' : 'Rendered'}
+        </button>
+        {renderMarkdown ? (
+          rendered ?? <Markdown className={markdownClassName}>{text}</Markdown>
+        ) : (
+          <pre className={preClassName}>{text}</pre>
+        )}
+      </div>
+    )
+  }
+
   function renderContent() {
     switch (block.type) {
       case 'text':
         return (
           <div className="message-content mt-2">
-            <pre className="text-sm text-foreground/90 whitespace-pre-wrap break-words bg-background p-3 rounded border border-border">
-              {block.text}
-            </pre>
+            {renderText(
+              block.text || '',
+              'text-sm text-foreground/90 whitespace-pre-wrap break-words bg-background p-3 rounded border border-border',
+              'text-foreground/90 bg-background px-3 py-1 rounded border border-border',
+              taggedSections && <UserTextView sections={taggedSections} />
+            )}
           </div>
         )
 
       case 'reasoning':
         return (
           <div className="message-content mt-2">
-            <pre className="text-sm text-violet-200 whitespace-pre-wrap break-words bg-violet-950/40 p-3 rounded border border-violet-800/50">
-              {block.text}
-            </pre>
+            {renderText(
+              block.text || '',
+              'text-sm text-violet-200 whitespace-pre-wrap break-words bg-violet-950/40 p-3 rounded border border-violet-800/50',
+              'text-violet-200 bg-violet-950/40 px-3 py-1 rounded border border-violet-800/50'
+            )}
             {block.summary && block.summary.length > 0 && (
               <div className="mt-2 p-2 bg-violet-950/50 rounded border border-violet-800/50">
                 <div className="text-xs font-semibold text-violet-400 mb-1">Summary:</div>
@@ -148,25 +307,40 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
         return (
           <div className="message-content mt-2">
             <div className="bg-amber-950/40 p-3 rounded border border-amber-800/50">
-              <div className="text-sm font-semibold text-amber-400 mb-2">
+              <div className="text-sm font-semibold text-amber-400 mb-2 flex items-center gap-2">
                 Tool: {block.name}
+                {subtaskId && onOpenSubtask && (
+                  <button
+                    onClick={() => onOpenSubtask(subtaskId)}
+                    className="ml-auto text-xs font-normal text-amber-300 hover:text-amber-200 hover:underline flex items-center gap-1"
+                  >
+                    <CornerDownRight className="h-3 w-3" />
+                    Open subtask
+                    <span className="font-mono text-amber-400/70">{subtaskId.slice(0, 8)}</span>
+                  </button>
+                )}
               </div>
-              {block.input && (
+              {diffFiles.length > 0 ? (
+                <ApplyDiffView files={diffFiles} result={result} />
+              ) : fileSections.length > 0 ? (
+                <div className="space-y-2">
+                  {fileSections.map((file, index) => (
+                    <FileContentView key={index} file={file} />
+                  ))}
+                </div>
+              ) : block.name === 'execute_command' && typeof block.input?.command === 'string' ? (
+                <TerminalView
+                  command={block.input.command}
+                  cwd={typeof block.input.cwd === 'string' ? block.input.cwd : undefined}
+                  result={result}
+                  showOutput={false}
+                />
+              ) : block.input && (
                 <div>
                   <div className="text-xs text-amber-400/80 mb-1">Input:</div>
-                  <SyntaxHighlighter
+                  <LazyHighlighter
                     language="json"
-                    style={{
-                      ...vscDarkPlus,
-                      'pre[class*="language-"]': {
-                        ...vscDarkPlus['pre[class*="language-"]'],
-                        background: 'hsl(var(--background))',
-                      },
-                      'code[class*="language-"]': {
-                        ...vscDarkPlus['code[class*="language-"]'],
-                        background: 'transparent',
-                      },
-                    }}
+                    style={codeStyle}
                     customStyle={{
                       margin: 0,
                       padding: '0.5rem',
@@ -185,7 +359,12 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
                     }}
                   >
                     {JSON.stringify(block.input, null, 2)}
-                  </SyntaxHighlighter>
+                  </LazyHighlighter>
+                </div>
+              )}
+              {paired && result && (
+                <div className="mt-3">
+                  <MessageBlock block={result} role="user" toolUse={block} expanded={isExpanded} markdown={markdown} />
                 </div>
               )}
             </div>
@@ -193,6 +372,26 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
         )
 
       case 'tool_result':
+        if (fileSections.length > 0) {
+          return (
+            <div className="message-content mt-2 space-y-2">
+              {fileSections.map((file, index) => (
+                <FileContentView key={index} file={file} />
+              ))}
+            </div>
+          )
+        }
+        if (toolUse?.name === 'execute_command') {
+          return (
+            <div className="message-content mt-2">
+              <TerminalView
+                command={typeof toolUse.input?.command === 'string' ? toolUse.input.command : undefined}
+                cwd={typeof toolUse.input?.cwd === 'string' ? toolUse.input.cwd : undefined}
+                result={block}
+              />
+            </div>
+          )
+        }
         return (
           <div className="message-content mt-2">
             <div className={`p-3 rounded border ${
@@ -216,6 +415,8 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
               <img
                 src={`data:${block.source.media_type};base64,${block.source.data}`}
                 alt="Embedded image"
+                loading="lazy"
+                decoding="async"
                 className="max-w-full h-auto rounded border border-border"
               />
             ) : (
@@ -235,10 +436,16 @@ export default function MessageBlock({ block, expanded: initialExpanded, hasMiss
     }
   }
 
+  // Nothing left to show once the environment_details bulk is hidden
+  if (taggedSections && taggedSections.length === 0) return null
+
   return (
     <Collapsible
       open={isExpanded}
-      onOpenChange={setIsExpanded}
+      onOpenChange={(open) => {
+        setIsExpanded(open)
+        onExpandedChange?.(open)
+      }}
       className="border border-border rounded p-3 bg-muted"
     >
       <CollapsibleTrigger className="w-full text-left hover:bg-muted/80 -m-3 p-3 rounded transition-colors">
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Bookmark, ChevronDown, Plus, Trash2 } from 'lucide-react'
+import { countActiveFilters } from '@/lib/task-filter'
+import type { SavedView, TaskFilter } from '../types'
+
+interface SavedViewsMenuProps {
+  views: SavedView[]
+  filter: TaskFilter
+  onApply: (view: SavedView) => void
+  onSave: (name: string) => Promise<void>
+  onDelete: (view: SavedView) => void
+}
+
+function sameValues(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value) => b.includes(value))
+}
+
+function sameFilter(a: TaskFilter, b: TaskFilter): boolean {
+  return a.text.trim() === b.text.trim() &&
+    sameValues(a.tags, b.tags) &&
+    sameValues(a.statuses, b.statuses) &&
+    a.workspace === b.workspace &&
+    a.days === b.days &&
+    a.from === b.from &&
+    a.to === b.to &&
+    a.pinnedOnly === b.pinnedOnly
+}
+
+export default function SavedViewsMenu({ views, filter, onApply, onSave, onDelete }: SavedViewsMenuProps) {
+  const [naming, setNaming] = useState(false)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const activeView = views.find((view) => sameFilter(view.filter, filter))
+
+  async function save() {
+    setError(null)
+    try {
+      await onSave(name)
+      setNaming(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view')
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-[200px]">
+            <Bookmark className="h-4 w-4 mr-2 shrink-0" />
+            <span className="truncate">{activeView?.name ?? 'Views'}</span>
+            <ChevronDown className="h-4 w-4 ml-2 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="text-xs">Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <DropdownMenuItem disabled className="text-xs">
+              No saved views
+            </DropdownMenuItem>
+          )}
+          {views.map((view) => (
+            <DropdownMenuItem key={view.id} onClick={() => onApply(view)} className="text-xs group">
+              <span className={`flex-1 truncate ${view === activeView ? 'font-medium' : ''}`}>{view.name}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onDelete(view)
+                }}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                aria-label={`Delete ${view.name}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={countActiveFilters(filter) === 0}
+            onClick={() => {
+              setName('')
+              setError(null)
+              setNaming(true)
+            }}
+            className="text-xs"
+          >
+            <Plus className="h-3 w-3 mr-2" />
+            Save current filters…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={naming} onOpenChange={setNaming}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim()) save()
+            }}
+            placeholder="e.g. Pinned regressions last 7 days"
+            maxLength={80}
+            autoFocus
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNaming(false)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={!name.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
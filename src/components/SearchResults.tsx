@@ -0,0 +1,112 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Badge } from '@/components/ui/badge'
+import { getBadgeVariant } from '@/lib/block-styles'
+import type { SearchHit, SearchResult } from '../types'
+
+interface SearchResultsProps {
+  query: string
+  results: SearchResult[]
+  total: number
+  selectedTask: string | null
+  onOpenHit: (taskId: string, hit: SearchHit | null) => void
+  disabled?: boolean
+}
+
+function HighlightedSnippet({ hit }: { hit: SearchHit }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  hit.highlights.forEach(([start, end], i) => {
+    if (start < cursor) return
+    parts.push(hit.snippet.slice(cursor, start))
+    parts.push(
+      <mark key={i} className="bg-amber-500/40 text-foreground rounded-sm px-0.5">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+  parts.push(hit.snippet.slice(cursor))
+
+  return <>{parts}</>
+}
+
+export default function SearchResults({ query, results, total, selectedTask, onOpenHit, disabled = false }: SearchResultsProps) {
+  function formatDate(timestamp: number) {
+    return new Date(timestamp).toLocaleString()
+  }
+
+  return (
+    <Card>
+      <CardHeader className="py-3 px-4">
+        <CardTitle className="text-base flex items-center gap-2">
+          Results
+          <Badge variant="secondary" className="text-xs font-normal">
+            {total > results.length ? `${results.length} of ${total}` : total}
+          </Badge>
+          <span className="text-xs font-normal text-muted-foreground font-mono truncate">{query}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ScrollArea className="h-[calc(100vh-250px)]">
+          <div className="divide-y divide-border">
+            {results.length === 0 ? (
+              <div className="p-4 text-muted-foreground text-center text-sm">
+                No matching tasks
+              </div>
+            ) : (
+              results.map((result) => (
+                <div
+                  key={result.id}
+                  className={`p-4 ${selectedTask === result.id ? 'bg-muted border-l-2 border-primary' : ''}`}
+                >
+                  <button
+                    onClick={() => !disabled && onOpenHit(result.id, null)}
+                    disabled={disabled}
+                    className="w-full text-left disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <div className="text-xs text-muted-foreground mb-1 flex items-center gap-2">
+                      {formatDate(result.timestamp)}
+                      <span className="ml-auto">
+                        {result.hitCount} {result.hitCount === 1 ? 'hit' : 'hits'}
+                      </span>
+                    </div>
+                    <div className="text-sm text-foreground line-clamp-2">
+                      {result.firstMessage}
+                    </div>
+                  </button>
+                  <div className="mt-2 space-y-1">
+                    {result.hits.map((hit) => (
+                      <button
+                        key={`${hit.messageIndex}-${hit.blockIndex}`}
+                        onClick={() => !disabled && onOpenHit(result.id, hit)}
+                        disabled={disabled}
+                        className="w-full text-left rounded px-2 py-1 hover:bg-muted/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <div className="flex items-center gap-1 mb-0.5">
+                          <Badge variant={getBadgeVariant(hit.type)} className="text-[10px] px-1.5 py-0">
+                            {hit.type}
+                          </Badge>
+                          {hit.tool && (
+                            <span className="text-[10px] font-mono text-muted-foreground">{hit.tool}</span>
+                          )}
+                          <span className="text-[10px] text-muted-foreground ml-auto">
+                            {hit.role} · #{hit.messageIndex}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground break-words line-clamp-2">
+                          <HighlightedSnippet hit={hit} />
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
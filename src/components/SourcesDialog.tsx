@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Plus, Trash2 } from 'lucide-react'
+import type { SourceOrigin, TaskSource } from '../types'
+
+interface SourcesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sources: TaskSource[]
+  onAdd: (name: string, path: string) => Promise<void>
+  onRemove: (source: TaskSource) => Promise<void>
+}
+
+const ORIGIN_LABELS: Record<SourceOrigin, string> = {
+  discovered: 'Detected',
+  config: 'Config',
+  saved: 'Added',
+}
+
+export default function SourcesDialog({ open, onOpenChange, sources, onAdd, onRemove }: SourcesDialogProps) {
+  const [name, setName] = useState('')
+  const [path, setPath] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setName('')
+    setPath('')
+    setError(null)
+  }, [open])
+
+  async function add() {
+    setAdding(true)
+    setError(null)
+    try {
+      await onAdd(name.trim(), path.trim())
+      setName('')
+      setPath('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add source')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  async function remove(source: TaskSource) {
+    setError(null)
+    try {
+      await onRemove(source)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove source')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Sources</DialogTitle>
+          <DialogDescription>
+            Add any folder of Roo task directories, such as an export from a colleague. Sources from the config
+            file or command line are managed there.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1 max-h-72 overflow-y-auto">
+          {sources.length === 0 && <p className="text-sm text-muted-foreground">No sources yet</p>}
+          {sources.map((source) => (
+            <div key={source.id} className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">{source.label}</div>
+                <div className="text-xs text-muted-foreground font-mono truncate" title={source.path}>
+                  {source.path}
+                </div>
+              </div>
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-normal shrink-0">
+                {ORIGIN_LABELS[source.origin]}
+              </Badge>
+              {source.origin === 'saved' && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => remove(source)}
+                  aria-label={`Remove ${source.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            className="w-36"
+            maxLength={60}
+          />
+          <Input
+            value={path}
+            onChange={(e) => setPath(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && name.trim() && path.trim()) add()
+            }}
+            placeholder="/path/to/tasks"
+            className="flex-1 font-mono text-xs"
+          />
+          <Button onClick={add} disabled={adding || !name.trim() || !path.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
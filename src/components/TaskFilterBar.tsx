@@ -0,0 +1,178 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Filter, X } from 'lucide-react'
+import { countActiveFilters, DAY_OPTIONS, EMPTY_TASK_FILTER, formatDateRange, formatDays } from '@/lib/task-filter'
+import { getWorkspaceName, type WorkspaceSummary } from '@/lib/workspaces'
+import type { TaskFilter, TaskStatus } from '../types'
+
+interface TaskFilterBarProps {
+  filter: TaskFilter
+  onChange: (filter: TaskFilter) => void
+  tags: string[]
+  workspaces: WorkspaceSummary[]
+}
+
+const STATUSES: TaskStatus[] = ['active', 'completed', 'waiting', 'error', 'interrupted']
+const ANY = 'any'
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
+}
+
+export default function TaskFilterBar({ filter, onChange, tags, workspaces }: TaskFilterBarProps) {
+  const activeCount = countActiveFilters({ ...filter, text: '' })
+  const update = (patch: Partial<TaskFilter>) => onChange({ ...filter, ...patch })
+
+  return (
+    <div className="flex items-center gap-2 px-4 pb-3">
+      <Input
+        value={filter.text}
+        onChange={(e) => update({ text: e.target.value })}
+        placeholder="Filter tasks…"
+        className="h-7 text-xs flex-1"
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant={activeCount > 0 ? 'secondary' : 'outline'} size="sm" className="h-7 px-2 text-xs">
+            <Filter className="h-3 w-3 mr-1" />
+            {activeCount > 0 ? activeCount : 'Filter'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuCheckboxItem
+            checked={filter.pinnedOnly}
+            onCheckedChange={(checked) => update({ pinnedOnly: checked === true })}
+            onSelect={(e) => e.preventDefault()}
+            className="text-xs"
+          >
+            Pinned only
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="text-xs">
+              Tags{filter.tags.length > 0 && ` (${filter.tags.length})`}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              {tags.length === 0 ? (
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">No tags yet</DropdownMenuLabel>
+              ) : (
+                tags.map((tag) => (
+                  <DropdownMenuCheckboxItem
+                    key={tag}
+                    checked={filter.tags.includes(tag)}
+                    onCheckedChange={() => update({ tags: toggle(filter.tags, tag) })}
+                    onSelect={(e) => e.preventDefault()}
+                    className="text-xs"
+                  >
+                    {tag}
+                  </DropdownMenuCheckboxItem>
+                ))
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="text-xs">
+              Status{filter.statuses.length > 0 && ` (${filter.statuses.length})`}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {STATUSES.map((status) => (
+                <DropdownMenuCheckboxItem
+                  key={status}
+                  checked={filter.statuses.includes(status)}
+                  onCheckedChange={() => update({ statuses: toggle(filter.statuses, status) })}
+                  onSelect={(e) => e.preventDefault()}
+                  className="text-xs"
+                >
+                  {status}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="text-xs">
+              {filter.days ? formatDays(filter.days) : filter.from || filter.to ? formatDateRange(filter.from, filter.to) : 'Any time'}
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuRadioGroup
+                value={filter.days ? String(filter.days) : ANY}
+                onValueChange={(value) => update(value === ANY ? { days: null, from: null, to: null } : { days: Number(value) })}
+              >
+                <DropdownMenuRadioItem value={ANY} className="text-xs">Any time</DropdownMenuRadioItem>
+                {DAY_OPTIONS.map((days) => (
+                  <DropdownMenuRadioItem key={days} value={String(days)} className="text-xs">
+                    {formatDays(days)}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              {/* Keys stay in the inputs instead of driving the menu's typeahead */}
+              <div className="grid grid-cols-[auto_1fr] items-center gap-2 px-2 py-1.5 text-xs" onKeyDown={(e) => e.stopPropagation()}>
+                <label htmlFor="task-filter-from" className="text-muted-foreground">From</label>
+                <Input
+                  id="task-filter-from"
+                  type="date"
+                  value={filter.from ?? ''}
+                  max={filter.to ?? undefined}
+                  onChange={(e) => update({ from: e.target.value || null })}
+                  className="h-7 text-xs"
+                />
+                <label htmlFor="task-filter-to" className="text-muted-foreground">To</label>
+                <Input
+                  id="task-filter-to"
+                  type="date"
+                  value={filter.to ?? ''}
+                  min={filter.from ?? undefined}
+                  onChange={(e) => update({ to: e.target.value || null })}
+                  className="h-7 text-xs"
+                />
+              </div>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="text-xs">
+              <span className="truncate">{filter.workspace ? getWorkspaceName(filter.workspace) : 'All workspaces'}</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              <DropdownMenuRadioGroup
+                value={filter.workspace ?? ANY}
+                onValueChange={(value) => update({ workspace: value === ANY ? null : value })}
+              >
+                <DropdownMenuRadioItem value={ANY} className="text-xs">All workspaces</DropdownMenuRadioItem>
+                {workspaces.map(({ workspace, count }) => workspace && (
+                  <DropdownMenuRadioItem key={workspace} value={workspace} className="text-xs font-mono" title={workspace}>
+                    <span className="flex-1 truncate">{workspace}</span>
+                    <span className="ml-2 text-muted-foreground">{count}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {countActiveFilters(filter) > 0 && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => onChange(EMPTY_TASK_FILTER)}
+          title="Clear filters"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -1,69 +1,424 @@
+import { useEffect, useMemo, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Clock, Coins, MessageSquare, ArrowUpDown, ChevronDown, ChevronRight, GitBranch, StickyNote, Pin, Tag, Folder, FolderTree, Filter, HardDrive } from 'lucide-react'
+import { formatBytes, formatCost, formatDuration, formatRelativeTime, formatTokens } from '@/lib/format'
+import { getWorkspaceName, summarizeWorkspaces } from '@/lib/workspaces'
+import { SEVERITY_CLASSES } from '@/lib/annotations'
+import { getSourceLabel } from '@/lib/sources'
+import { countActiveFilters, filterTasks, getTaskMeta } from '@/lib/task-filter'
+import TaskFilterBar from './TaskFilterBar'
+import TaskTagsDialog from './TaskTagsDialog'
+import type { AnnotationSummary, Task, TaskFilter, TaskMeta, TaskSource, TaskStatus } from '../types'
 
-interface Task {
-  id: string
-  timestamp: number
-  firstMessage: string
+type SortKey = 'timestamp' | 'createdAt' | 'cost' | 'size' | 'messageCount'
+
+const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: 'timestamp', label: 'Last activity' },
+  { value: 'createdAt', label: 'Created' },
+  { value: 'cost', label: 'Cost' },
+  { value: 'size', label: 'Size' },
+  { value: 'messageCount', label: 'Messages' },
+]
+
+const STATUS_CLASSES: Record<TaskStatus, string> = {
+  active: 'bg-sky-900/40 text-sky-400 hover:bg-sky-900/50',
+  completed: 'bg-emerald-900/40 text-emerald-400 hover:bg-emerald-900/50',
+  waiting: 'bg-amber-900/40 text-amber-400 hover:bg-amber-900/50',
+  error: 'bg-red-900/40 text-red-400 hover:bg-red-900/50',
+  interrupted: 'bg-slate-800 text-slate-400 hover:bg-slate-700',
+}
+
+function getStoredSort(): SortKey {
+  const stored = localStorage.getItem('convo-viewer-task-sort')
+  return SORT_OPTIONS.some(o => o.value === stored) ? stored as SortKey : 'timestamp'
 }
 
 interface TaskListProps {
   tasks: Task[]
+  /** Set in the merged view, where each row names the source it came from */
+  sources?: TaskSource[]
+  annotations?: Record<string, AnnotationSummary>
+  meta: Record<string, TaskMeta>
+  filter: TaskFilter
+  onFilterChange: (filter: TaskFilter) => void
+  onUpdateMeta?: (taskId: string, patch: Partial<TaskMeta>) => Promise<void>
   selectedTask: string | null
   onSelectTask: (id: string) => void
   disabled?: boolean
 }
 
-export default function TaskList({ tasks, selectedTask, onSelectTask, disabled = false }: TaskListProps) {
+export default function TaskList({
+  tasks,
+  sources,
+  annotations = {},
+  meta,
+  filter,
+  onFilterChange,
+  onUpdateMeta,
+  selectedTask,
+  onSelectTask,
+  disabled = false,
+}: TaskListProps) {
+  const [sortKey, setSortKey] = useState<SortKey>(getStoredSort)
+  const [taggingTask, setTaggingTask] = useState<Task | null>(null)
+  const [pinError, setPinError] = useState<string | null>(null)
+  const [groupByWorkspace, setGroupByWorkspace] = useState(
+    () => localStorage.getItem('convo-viewer-task-group-workspace') === 'true'
+  )
+  const [collapsedWorkspaces, setCollapsedWorkspaces] = useState<Set<string | null>>(new Set())
+
+  const [expandedParents, setExpandedParents] = useState<Set<string>>(new Set())
+
+  const knownTags = useMemo(
+    () => Array.from(new Set(Object.values(meta).flatMap(m => m.tags))).sort(),
+    [meta]
+  )
+
+  const workspaces = useMemo(() => summarizeWorkspaces(tasks), [tasks])
+
+  const visibleTasks = useMemo(() => filterTasks(tasks, filter, meta), [tasks, filter, meta])
+
+  // Pinned tasks lead, each group in the chosen order
+  const sortedTasks = useMemo(
+    () => [...visibleTasks].sort((a, b) =>
+      Number(getTaskMeta(meta, b.id).pinned) - Number(getTaskMeta(meta, a.id).pinned) ||
+      (b[sortKey] ?? 0) - (a[sortKey] ?? 0)
+    ),
+    [visibleTasks, meta, sortKey]
+  )
+
+  // Subtasks nest under their parent in creation order; orphans stay top-level
+  const { rootTasks, childrenByParent, parentById } = useMemo(() => {
+    const byId = new Map(visibleTasks.map(task => [task.id, task]))
+    const children = new Map<string, Task[]>()
+    const parents = new Map<string, string>()
+    for (const task of visibleTasks) {
+      if (!task.parentId || !byId.has(task.parentId)) continue
+      parents.set(task.id, task.parentId)
+      const siblings = children.get(task.parentId) ?? []
+      siblings.push(task)
+      children.set(task.parentId, siblings)
+    }
+    children.forEach(siblings => siblings.sort((a, b) => a.createdAt - b.createdAt))
+    return {
+      rootTasks: sortedTasks.filter(task => !parents.has(task.id)),
+      childrenByParent: children,
+      parentById: parents,
+    }
+  }, [visibleTasks, sortedTasks])
+
+  // Groups follow the visible tasks; a subtask stays with its parent's group
+  const workspaceGroups = useMemo(() => {
+    if (!groupByWorkspace) return []
+    return summarizeWorkspaces(rootTasks).map(summary => ({
+      ...summary,
+      tasks: rootTasks.filter(task => (task.workspace ?? null) === summary.workspace),
+    }))
+  }, [groupByWorkspace, rootTasks])
+
+  useEffect(() => {
+    if (!selectedTask || !parentById.has(selectedTask)) return
+    setExpandedParents(prev => {
+      const next = new Set(prev)
+      for (let id = parentById.get(selectedTask); id; id = parentById.get(id)) {
+        next.add(id)
+      }
+      return next.size === prev.size ? prev : next
+    })
+  }, [selectedTask, parentById])
+
+  async function togglePinned(taskId: string, pinned: boolean) {
+    setPinError(null)
+    try {
+      await onUpdateMeta!(taskId, { pinned })
+    } catch (err) {
+      setPinError(err instanceof Error ? err.message : 'Failed to update pin')
+    }
+  }
+
+  function toggleExpanded(taskId: string) {
+    setExpandedParents(prev => {
+      const next = new Set(prev)
+      if (next.has(taskId)) next.delete(taskId)
+      else next.add(taskId)
+      return next
+    })
+  }
+
+  function toggleWorkspace(workspace: string | null) {
+    setCollapsedWorkspaces(prev => {
+      const next = new Set(prev)
+      if (next.has(workspace)) next.delete(workspace)
+      else next.add(workspace)
+      return next
+    })
+  }
+
+  function renderWorkspaceGroups() {
+    return workspaceGroups.map(group => {
+      const isCollapsed = collapsedWorkspaces.has(group.workspace)
+      return (
+        <div key={group.workspace ?? ''}>
+          <div className="flex items-center gap-2 px-3 py-2 bg-muted/40 sticky top-0 z-[1] backdrop-blur">
+            <button
+              onClick={() => toggleWorkspace(group.workspace)}
+              className="flex items-center gap-2 min-w-0 flex-1 text-left"
+              title={group.workspace ?? 'Tasks without a detected workspace'}
+            >
+              {isCollapsed ? <ChevronRight className="h-4 w-4 shrink-0" /> : <ChevronDown className="h-4 w-4 shrink-0" />}
+              <Folder className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="text-sm font-medium truncate">{getWorkspaceName(group.workspace)}</span>
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0 font-normal shrink-0">
+                {group.count}
+              </Badge>
+              <span
+                className="text-xs text-muted-foreground ml-auto shrink-0"
+                title={`Last activity ${new Date(group.lastActivity).toLocaleString()}`}
+              >
+                {formatRelativeTime(group.lastActivity)}
+              </span>
+            </button>
+            {group.workspace && filter.workspace !== group.workspace && (
+              <button
+                onClick={() => onFilterChange({ ...filter, workspace: group.workspace })}
+                className="p-1 rounded text-muted-foreground/60 hover:text-foreground hover:bg-muted shrink-0"
+                title="Show only this workspace"
+              >
+                <Filter className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+          {!isCollapsed && (
+            <div className="divide-y divide-border">
+              {group.tasks.map(task => renderTask(task, 0))}
+            </div>
+          )}
+        </div>
+      )
+    })
+  }
+
   function formatDate(timestamp: number) {
     return new Date(timestamp).toLocaleString()
   }
 
+  function renderTask(task: Task, depth: number): React.ReactNode {
+    const children = childrenByParent.get(task.id) ?? []
+    const isExpanded = expandedParents.has(task.id)
+    const annotationSummary = annotations[task.id]
+    const { tags, pinned } = getTaskMeta(meta, task.id)
+
+    return (
+      <div key={task.id}>
+        <div
+          className={`flex transition-colors ${
+            selectedTask === task.id ? 'bg-muted border-l-2 border-primary' : ''
+          }`}
+          style={{ paddingLeft: depth * 16 }}
+        >
+          {children.length > 0 ? (
+            <button
+              onClick={() => toggleExpanded(task.id)}
+              className="pl-2 pt-4 text-muted-foreground hover:text-foreground self-start"
+              aria-label={isExpanded ? 'Collapse subtasks' : 'Expand subtasks'}
+            >
+              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
+          ) : depth > 0 ? (
+            <GitBranch className="h-3 w-3 ml-2 mt-5 text-muted-foreground/60 shrink-0" />
+          ) : null}
+          <button
+            onClick={() => !disabled && onSelectTask(task.id)}
+            disabled={disabled}
+            className={`flex-1 min-w-0 text-left p-4 ${children.length > 0 || depth > 0 ? 'pl-2' : ''} ${
+              disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-muted/50'
+            }`}
+          >
+            <div className="text-xs text-muted-foreground mb-1 flex items-center gap-2">
+              {formatDate(sortKey === 'createdAt' ? task.createdAt : task.timestamp)}
+              {children.length > 0 && (
+                <Badge variant="secondary" className="text-[10px] px-1.5 py-0 font-normal">
+                  {children.length} {children.length === 1 ? 'subtask' : 'subtasks'}
+                </Badge>
+              )}
+              {sources && (
+                <Badge
+                  variant="outline"
+                  className="text-[10px] px-1.5 py-0 font-normal gap-1 max-w-[140px]"
+                  title={sources.find(s => s.id === task.source)?.path}
+                >
+                  <HardDrive className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{getSourceLabel(sources, task.source)}</span>
+                </Badge>
+              )}
+              {annotationSummary && (
+                <Badge
+                  className={`text-[10px] px-1.5 py-0 gap-1 ${SEVERITY_CLASSES[annotationSummary.severity]}`}
+                  title={`${annotationSummary.count} ${annotationSummary.count === 1 ? 'annotation' : 'annotations'}`}
+                >
+                  <StickyNote className="h-3 w-3" />
+                  {annotationSummary.count}
+                </Badge>
+              )}
+              {task.status && (
+                <Badge className={`text-[10px] px-1.5 py-0 ml-auto ${STATUS_CLASSES[task.status]}`}>
+                  {task.status}
+                </Badge>
+              )}
+            </div>
+            <div className="text-sm text-foreground line-clamp-3">
+              {task.firstMessage}
+            </div>
+            <div className="flex items-center gap-1 flex-wrap mt-2">
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-normal gap-1" title="Cost">
+                <Coins className="h-3 w-3" />
+                {formatCost(task.cost)}
+              </Badge>
+              <Badge
+                variant="outline"
+                className="text-[10px] px-1.5 py-0 font-normal"
+                title={`In ${task.tokensIn.toLocaleString()} · Out ${task.tokensOut.toLocaleString()} · Cache reads ${task.cacheReads.toLocaleString()} · Cache writes ${task.cacheWrites.toLocaleString()}`}
+              >
+                ↑{formatTokens(task.tokensIn)} ↓{formatTokens(task.tokensOut)}
+              </Badge>
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-normal gap-1" title="Messages">
+                <MessageSquare className="h-3 w-3" />
+                {task.messageCount}
+              </Badge>
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-normal gap-1" title="Duration">
+                <Clock className="h-3 w-3" />
+                {formatDuration(task.durationMs)}
+              </Badge>
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-normal" title="Size on disk">
+                {formatBytes(task.size)}
+              </Badge>
+            </div>
+            {tags.length > 0 && (
+              <div className="flex items-center gap-1 flex-wrap mt-2">
+                {tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-[10px] px-1.5 py-0 font-normal">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground/60 mt-1 font-mono truncate">
+              {task.id}
+            </div>
+          </button>
+          {onUpdateMeta && (
+            <div className="flex flex-col gap-1 pt-3 pr-2 shrink-0">
+              <button
+                onClick={() => togglePinned(task.id, !pinned)}
+                className={`p-1 rounded hover:bg-muted ${pinned ? 'text-amber-400' : 'text-muted-foreground/50 hover:text-foreground'}`}
+                title={pinned ? 'Unpin' : 'Pin to top'}
+                aria-pressed={pinned}
+              >
+                <Pin className={`h-3.5 w-3.5 ${pinned ? 'fill-current' : ''}`} />
+              </button>
+              <button
+                onClick={() => setTaggingTask(task)}
+                className="p-1 rounded text-muted-foreground/50 hover:text-foreground hover:bg-muted"
+                title="Edit tags"
+              >
+                <Tag className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+        {isExpanded && children.length > 0 && (
+          <div className="border-t border-border/50">
+            {children.map(child => renderTask(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
   return (
     <Card>
-      <CardHeader className="py-3 px-4">
+      <CardHeader className="py-3 px-4 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-base flex items-center gap-2">
           Tasks
           <Badge variant="secondary" className="text-xs font-normal">
-            {tasks.length}
+            {countActiveFilters(filter) > 0 ? `${visibleTasks.length} / ${tasks.length}` : tasks.length}
           </Badge>
         </CardTitle>
+        <div className="flex items-center gap-1">
+          <Button
+            variant={groupByWorkspace ? 'secondary' : 'ghost'}
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => {
+              localStorage.setItem('convo-viewer-task-group-workspace', String(!groupByWorkspace))
+              setGroupByWorkspace(!groupByWorkspace)
+            }}
+            title={groupByWorkspace ? 'Ungroup tasks' : 'Group by workspace'}
+            aria-pressed={groupByWorkspace}
+          >
+            <FolderTree className="h-4 w-4" />
+          </Button>
+          <Select
+            value={sortKey}
+            onValueChange={(value: SortKey) => {
+              localStorage.setItem('convo-viewer-task-sort', value)
+              setSortKey(value)
+            }}
+          >
+            <SelectTrigger className="w-[150px] h-7 text-xs">
+              <ArrowUpDown className="h-3 w-3 mr-1" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </CardHeader>
+      <TaskFilterBar filter={filter} onChange={onFilterChange} tags={knownTags} workspaces={workspaces} />
+      {pinError && <p className="text-sm text-destructive px-4 pb-3">{pinError}</p>}
       <CardContent className="p-0">
-        <ScrollArea className="h-[calc(100vh-200px)]">
+        <ScrollArea className="h-[calc(100vh-290px)]">
           <div className="divide-y divide-border">
             {tasks.length === 0 ? (
               <div className="p-4 text-muted-foreground text-center text-sm">
                 No tasks found
               </div>
+            ) : visibleTasks.length === 0 ? (
+              <div className="p-4 text-muted-foreground text-center text-sm">
+                No tasks match the current filters
+              </div>
+            ) : groupByWorkspace ? (
+              renderWorkspaceGroups()
             ) : (
-              tasks.map((task) => (
-                <button
-                  key={task.id}
-                  onClick={() => !disabled && onSelectTask(task.id)}
-                  disabled={disabled}
-                  className={`w-full text-left p-4 transition-colors ${
-                    disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-muted/50'
-                  } ${
-                    selectedTask === task.id ? 'bg-muted border-l-2 border-primary' : ''
-                  }`}
-                >
-                  <div className="text-xs text-muted-foreground mb-1">
-                    {formatDate(task.timestamp)}
-                  </div>
-                  <div className="text-sm text-foreground line-clamp-3">
-                    {task.firstMessage}
-                  </div>
-                  <div className="text-xs text-muted-foreground/60 mt-1 font-mono truncate">
-                    {task.id}
-                  </div>
-                </button>
-              ))
+              rootTasks.map((task) => renderTask(task, 0))
             )}
           </div>
         </ScrollArea>
       </CardContent>
+      {onUpdateMeta && (
+        <TaskTagsDialog
+          task={taggingTask}
+          tags={taggingTask ? getTaskMeta(meta, taggingTask.id).tags : []}
+          knownTags={knownTags}
+          onSave={(tags) => onUpdateMeta(taggingTask!.id, { tags })}
+          onClose={() => setTaggingTask(null)}
+        />
+      )}
     </Card>
   )
 }
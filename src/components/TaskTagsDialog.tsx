@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { X } from 'lucide-react'
+import type { Task } from '../types'
+
+interface TaskTagsDialogProps {
+  /** The task being tagged, or null while the dialog is closed */
+  task: Task | null
+  tags: string[]
+  /** Every tag in use, offered as suggestions */
+  knownTags: string[]
+  onSave: (tags: string[]) => Promise<void>
+  onClose: () => void
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase()
+}
+
+export default function TaskTagsDialog({ task, tags: initialTags, knownTags, onSave, onClose }: TaskTagsDialogProps) {
+  const [tags, setTags] = useState<string[]>([])
+  const [input, setInput] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!task) return
+    setTags(initialTags)
+    setInput('')
+    setError(null)
+  }, [task])
+
+  function addTag(value: string) {
+    const tag = normalizeTag(value)
+    if (tag && !tags.includes(tag)) setTags([...tags, tag].sort())
+    setInput('')
+  }
+
+  async function save() {
+    setSaving(true)
+    setError(null)
+    try {
+      // Whatever is still typed counts, so Save does not silently drop it
+      const pending = normalizeTag(input)
+      await onSave(pending && !tags.includes(pending) ? [...tags, pending].sort() : tags)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tags')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const suggestions = knownTags.filter((tag) => !tags.includes(tag))
+
+  return (
+    <Dialog open={task !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit tags</DialogTitle>
+          {task && <DialogDescription className="line-clamp-2">{task.firstMessage}</DialogDescription>}
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-1 min-h-[1.5rem]">
+            {tags.length === 0 && <span className="text-xs text-muted-foreground">No tags</span>}
+            {tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="text-xs gap-1">
+                {tag}
+                <button onClick={() => setTags(tags.filter((t) => t !== tag))} aria-label={`Remove ${tag}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault()
+                addTag(input)
+              }
+            }}
+            placeholder="Add a tag and press Enter"
+            maxLength={40}
+            autoFocus
+          />
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {suggestions.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant="outline"
+                  className="text-xs cursor-pointer hover:bg-muted"
+                  onClick={() => addTag(tag)}
+                >
+                  + {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving}>
+            {saving ? 'Saving…' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Ban, CheckCircle2, FolderOpen, Loader2, Terminal, XCircle } from 'lucide-react'
+import { parseAnsi, type AnsiLine } from '@/lib/ansi'
+import { parseCommandResult, type CommandResult } from '@/lib/command-output'
+import { getToolResultText } from '@/lib/tool-results'
+import type { ContentBlock } from '../types'
+
+interface TerminalViewProps {
+  command?: string
+  cwd?: string
+  result?: ContentBlock
+  showOutput?: boolean
+}
+
+// Output longer than this is collapsed to its first and last PREVIEW_LINES lines
+const COLLAPSE_THRESHOLD = 60
+const PREVIEW_LINES = 20
+
+function StatusBadge({ result }: { result: CommandResult }) {
+  switch (result.status) {
+    case 'success':
+      return (
+        <Badge className="text-xs font-medium bg-emerald-900/40 text-emerald-400 hover:bg-emerald-900/50 flex items-center gap-1">
+          <CheckCircle2 className="h-3 w-3" />
+          Exit code {result.exitCode}
+        </Badge>
+      )
+    case 'failed':
+      return (
+        <Badge variant="destructive" className="text-xs font-medium flex items-center gap-1">
+          <XCircle className="h-3 w-3" />
+          {result.exitCode !== null
+            ? `Exit code ${result.exitCode}`
+            : result.signal ? `Signal ${result.signal}` : 'Failed'}
+        </Badge>
+      )
+    case 'running':
+      return (
+        <Badge className="text-xs font-medium bg-amber-900/40 text-amber-400 hover:bg-amber-900/50 flex items-center gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Still running
+        </Badge>
+      )
+    case 'rejected':
+      return (
+        <Badge variant="secondary" className="text-xs font-medium flex items-center gap-1">
+          <Ban className="h-3 w-3" />
+          Denied
+        </Badge>
+      )
+    default:
+      return null
+  }
+}
+
+function TerminalLine({ line }: { line: AnsiLine }) {
+  if (line.length === 0) return <div>{' '}</div>
+  return (
+    <div>
+      {line.map((segment, i) => (
+        <span
+          key={i}
+          style={{
+            color: segment.style.color,
+            backgroundColor: segment.style.background,
+            fontWeight: segment.style.bold ? 600 : undefined,
+            opacity: segment.style.dim ? 0.7 : undefined,
+            fontStyle: segment.style.italic ? 'italic' : undefined,
+            textDecoration: segment.style.underline ? 'underline' : undefined,
+          }}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+export default function TerminalView({ command, cwd, result, showOutput = true }: TerminalViewProps) {
+  const [showAll, setShowAll] = useState(false)
+  const parsed = useMemo(() => (result ? parseCommandResult(getToolResultText(result)) : null), [result])
+  const lines = useMemo(() => (parsed?.output ? parseAnsi(parsed.output) : []), [parsed])
+
+  const collapsed = !showAll && lines.length > COLLAPSE_THRESHOLD
+  const hiddenCount = lines.length - PREVIEW_LINES * 2
+  const workingDirectory = parsed?.cwd ?? cwd
+
+  return (
+    <div className="rounded border border-zinc-700 bg-zinc-950 overflow-hidden font-mono text-xs">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-zinc-800 bg-zinc-900">
+        <Terminal className="h-3.5 w-3.5 text-zinc-400 shrink-0" />
+        {workingDirectory && (
+          <span className="flex items-center gap-1 text-zinc-400 truncate min-w-0">
+            <FolderOpen className="h-3 w-3 shrink-0" />
+            <span className="truncate">{workingDirectory}</span>
+          </span>
+        )}
+        <span className="ml-auto shrink-0">{parsed && <StatusBadge result={parsed} />}</span>
+      </div>
+      {command && (
+        <div className="px-3 py-2 text-zinc-100 whitespace-pre-wrap break-all">
+          <span className="text-emerald-400 select-none">$ </span>
+          {command}
+        </div>
+      )}
+      {showOutput && lines.length > 0 && (
+        <div className={`px-3 py-2 text-zinc-300 whitespace-pre overflow-x-auto ${command ? 'border-t border-zinc-800' : ''}`}>
+          {collapsed ? (
+            <>
+              {lines.slice(0, PREVIEW_LINES).map((line, i) => <TerminalLine key={i} line={line} />)}
+              <button
+                onClick={() => setShowAll(true)}
+                className="my-1 w-full rounded bg-zinc-900 py-1 text-center text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+              >
+                Show {hiddenCount} hidden {hiddenCount === 1 ? 'line' : 'lines'}
+              </button>
+              {lines.slice(-PREVIEW_LINES).map((line, i) => <TerminalLine key={`tail-${i}`} line={line} />)}
+            </>
+          ) : (
+            lines.map((line, i) => <TerminalLine key={i} line={line} />)
+          )}
+          {showAll && lines.length > COLLAPSE_THRESHOLD && (
+            <button
+              onClick={() => setShowAll(false)}
+              className="mt-1 w-full rounded bg-zinc-900 py-1 text-center text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800"
+            >
+              Collapse output
+            </button>
+          )}
+        </div>
+      )}
+      {showOutput && parsed && lines.length === 0 && parsed.status !== 'rejected' && (
+        <div className="px-3 py-2 text-zinc-500 italic border-t border-zinc-800">No output</div>
+      )}
+    </div>
+  )
+}
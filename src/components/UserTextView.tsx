@@ -0,0 +1,96 @@
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight, MessageSquare, MonitorCog } from 'lucide-react'
+import { getPanelSummary, parseEnvironmentDetails, REQUEST_TAGS, type EnvironmentPanel, type TaggedSection } from '@/lib/roo-tags'
+import Markdown from './Markdown'
+
+interface UserTextViewProps {
+  sections: TaggedSection[]
+}
+
+const TAG_LABELS: Record<string, string> = {
+  task: 'Task',
+  feedback: 'Feedback',
+  user_message: 'User message',
+  answer: 'Answer',
+  environment_details: 'Environment details',
+}
+
+function getTagLabel(tag: string): string {
+  return TAG_LABELS[tag] ?? tag.replace(/[_-]/g, ' ')
+}
+
+function EnvironmentPanelView({ panel }: { panel: EnvironmentPanel }) {
+  const [open, setOpen] = useState(false)
+  const summary = getPanelSummary(panel)
+
+  return (
+    <div className="border-b border-border last:border-b-0">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left hover:bg-muted/60"
+      >
+        {open ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+        <span className="font-medium text-foreground/80 shrink-0">{panel.title}</span>
+        {!open && summary && (
+          <span className="text-muted-foreground truncate min-w-0">{summary}</span>
+        )}
+      </button>
+      {open && (
+        <pre className="px-3 pb-2 pl-8 text-xs text-foreground/80 whitespace-pre-wrap break-words max-h-80 overflow-auto">
+          {panel.content || '(empty)'}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+function EnvironmentDetailsView({ content }: { content: string }) {
+  const panels = useMemo(() => parseEnvironmentDetails(content), [content])
+
+  return (
+    <div className="rounded border border-border bg-background">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border text-xs font-semibold text-muted-foreground">
+        <MonitorCog className="h-3.5 w-3.5" />
+        Environment details
+      </div>
+      {panels.map((panel, index) => (
+        <EnvironmentPanelView key={index} panel={panel} />
+      ))}
+    </div>
+  )
+}
+
+export default function UserTextView({ sections }: UserTextViewProps) {
+  return (
+    <div className="space-y-2">
+      {sections.map((section, index) => {
+        if (section.tag === 'environment_details') {
+          return <EnvironmentDetailsView key={index} content={section.content} />
+        }
+
+        if (section.tag && REQUEST_TAGS.has(section.tag)) {
+          return (
+            <div key={index} className="rounded border border-blue-700/60 bg-blue-950/40">
+              <div className="flex items-center gap-2 px-3 pt-2 text-xs font-semibold text-blue-300">
+                <MessageSquare className="h-3.5 w-3.5" />
+                {getTagLabel(section.tag)}
+              </div>
+              <Markdown className="px-3 pb-1 text-foreground">{section.content}</Markdown>
+            </div>
+          )
+        }
+
+        return (
+          <div key={index} className="rounded border border-border bg-background">
+            {section.tag && (
+              <div className="px-3 pt-2 text-xs font-semibold text-muted-foreground">
+                {getTagLabel(section.tag)}
+              </div>
+            )}
+            <Markdown className="px-3 py-1 text-foreground/80">{section.content}</Markdown>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import type { Annotation, AnnotationSeverity, Message, MessageLocation } from '../types'
+
+export const SEVERITIES: AnnotationSeverity[] = ['info', 'warning', 'error']
+
+export const SEVERITY_CLASSES: Record<AnnotationSeverity, string> = {
+  info: 'bg-sky-900/40 text-sky-400 hover:bg-sky-900/50',
+  warning: 'bg-amber-900/40 text-amber-400 hover:bg-amber-900/50',
+  error: 'bg-red-900/40 text-red-400 hover:bg-red-900/50',
+}
+
+export function annotationKey(messageIndex: number, blockIndex: number | null): string {
+  return blockIndex === null ? `${messageIndex}` : `${messageIndex}:${blockIndex}`
+}
+
+/** Conversation order, with notes on a whole message before those on its blocks. */
+export function compareAnnotations(a: Annotation, b: Annotation): number {
+  return a.messageIndex - b.messageIndex || (a.blockIndex ?? -1) - (b.blockIndex ?? -1) || a.createdAt - b.createdAt
+}
+
+/**
+ * The annotation at the index its message has now. Condensing or editing
+ * the chat shifts message indexes, so the note follows the message's ts,
+ * taking the match nearest to where it was when several share one.
+ */
+export function placeAnnotation(annotation: Annotation, messages: Pick<Message, 'ts'>[]): Annotation {
+  const { messageIndex, messageTs } = annotation
+  if (messageTs === undefined || messages[messageIndex]?.ts === messageTs) return annotation
+
+  let placed = -1
+  messages.forEach((message, index) => {
+    if (message.ts === messageTs && (placed === -1 || Math.abs(index - messageIndex) < Math.abs(placed - messageIndex))) {
+      placed = index
+    }
+  })
+  return placed === -1 ? annotation : { ...annotation, messageIndex: placed }
+}
+
+/** Annotations grouped by the message or block they are attached to. */
+export function groupAnnotations(annotations: Annotation[]): Map<string, Annotation[]> {
+  const groups = new Map<string, Annotation[]>()
+  for (const annotation of annotations) {
+    const key = annotationKey(annotation.messageIndex, annotation.blockIndex)
+    groups.set(key, [...(groups.get(key) ?? []), annotation])
+  }
+  return groups
+}
+
+export function worstSeverity(annotations: Annotation[]): AnnotationSeverity {
+  return SEVERITIES[Math.max(...annotations.map((annotation) => SEVERITIES.indexOf(annotation.severity)))]
+}
+
+export function annotationLocation(annotation: Annotation): MessageLocation {
+  return annotation.blockIndex === null
+    ? { messageIndex: annotation.messageIndex }
+    : { messageIndex: annotation.messageIndex, blockIndex: annotation.blockIndex }
+}
+
+export function formatAnnotationLocation(annotation: Pick<Annotation, 'messageIndex' | 'blockIndex'>): string {
+  return annotation.blockIndex === null
+    ? `Message ${annotation.messageIndex + 1}`
+    : `Message ${annotation.messageIndex + 1} · block ${annotation.blockIndex + 1}`
+}
@@ -0,0 +1,155 @@
+export interface AnsiStyle {
+  color?: string
+  background?: string
+  bold?: boolean
+  dim?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+export interface AnsiSegment {
+  text: string
+  style: AnsiStyle
+}
+
+export type AnsiLine = AnsiSegment[]
+
+// Close to the VS Code integrated terminal's dark palette
+const PALETTE = [
+  '#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+  '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#ffffff',
+]
+
+// CSI sequences, OSC sequences (terminated by BEL or ST) and lone two-byte escapes
+const ESCAPE_PATTERN = /\x1b\[([0-9;?]*)([A-Za-z])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[()][A-Za-z0-9]|\x1b[=>78cDEHM]|\r\n|[\r\n\b]/g
+
+function xterm256(index: number): string {
+  if (index < 16) return PALETTE[index]
+  if (index >= 232) {
+    const level = 8 + (index - 232) * 10
+    return `rgb(${level}, ${level}, ${level})`
+  }
+  const cube = index - 16
+  const channel = (value: number) => (value === 0 ? 0 : 55 + value * 40)
+  return `rgb(${channel(Math.floor(cube / 36))}, ${channel(Math.floor(cube / 6) % 6)}, ${channel(cube % 6)})`
+}
+
+function applySgr(style: AnsiStyle, params: string): AnsiStyle {
+  const codes = params === '' ? [0] : params.split(';').map((code) => Number(code) || 0)
+  let next = { ...style }
+
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i]
+    if (code === 0) next = {}
+    else if (code === 1) next.bold = true
+    else if (code === 2) next.dim = true
+    else if (code === 3) next.italic = true
+    else if (code === 4) next.underline = true
+    else if (code === 22) next.bold = next.dim = false
+    else if (code === 23) next.italic = false
+    else if (code === 24) next.underline = false
+    else if (code >= 30 && code <= 37) next.color = PALETTE[code - 30]
+    else if (code >= 90 && code <= 97) next.color = PALETTE[code - 90 + 8]
+    else if (code >= 40 && code <= 47) next.background = PALETTE[code - 40]
+    else if (code >= 100 && code <= 107) next.background = PALETTE[code - 100 + 8]
+    else if (code === 39) next.color = undefined
+    else if (code === 49) next.background = undefined
+    else if (code === 38 || code === 48) {
+      const key = code === 38 ? 'color' : 'background'
+      if (codes[i + 1] === 5) {
+        next[key] = xterm256(codes[i + 2] ?? 0)
+        i += 2
+      } else if (codes[i + 1] === 2) {
+        next[key] = `rgb(${codes[i + 2] ?? 0}, ${codes[i + 3] ?? 0}, ${codes[i + 4] ?? 0})`
+        i += 4
+      }
+    }
+  }
+
+  return next
+}
+
+/**
+ * Interpret terminal output into styled lines. Beyond SGR colors this handles
+ * the cursor movement progress bars rely on: carriage returns overwrite the
+ * current line, and cursor-up plus erase-line rewrite earlier ones.
+ */
+export function parseAnsi(text: string): AnsiLine[] {
+  const lines: AnsiLine[] = [[]]
+  let row = 0
+  let style: AnsiStyle = {}
+  let pendingReturn = false
+
+  const write = (chunk: string) => {
+    if (!chunk) return
+    if (pendingReturn) {
+      lines[row] = []
+      pendingReturn = false
+    }
+    const line = lines[row]
+    const last = line[line.length - 1]
+    if (last && last.style === style) last.text += chunk
+    else line.push({ text: chunk, style })
+  }
+
+  let lastIndex = 0
+  for (const match of text.matchAll(ESCAPE_PATTERN)) {
+    write(text.slice(lastIndex, match.index))
+    lastIndex = match.index! + match[0].length
+    const token = match[0]
+
+    if (token === '\n' || token === '\r\n') {
+      pendingReturn = false
+      row++
+      if (!lines[row]) lines[row] = []
+    } else if (token === '\r') {
+      pendingReturn = true
+    } else if (token === '\b') {
+      const last = lines[row][lines[row].length - 1]
+      if (last) last.text = last.text.slice(0, -1)
+    } else if (match[2]) {
+      const params = match[1]
+      const count = Math.max(1, Number(params) || 1)
+      switch (match[2]) {
+        case 'm':
+          style = applySgr(style, params)
+          break
+        case 'A':
+        case 'F':
+          row = Math.max(0, row - count)
+          break
+        case 'B':
+        case 'E':
+          row += count
+          while (lines.length <= row) lines.push([])
+          break
+        case 'K':
+          if (params === '' || params === '0' || params === '2') lines[row] = []
+          break
+        case 'J':
+          if (params === '2' || params === '3') {
+            lines.length = 0
+            lines.push([])
+            row = 0
+          } else {
+            lines.length = row + 1
+            lines[row] = []
+          }
+          break
+        case 'G':
+          if (count === 1) pendingReturn = true
+          break
+      }
+    }
+  }
+  write(text.slice(lastIndex))
+
+  while (lines.length > 1 && lines[lines.length - 1].every((segment) => !segment.text)) {
+    lines.pop()
+  }
+  return lines
+}
+
+export function stripAnsi(text: string): string {
+  return parseAnsi(text).map((line) => line.map((segment) => segment.text).join('')).join('\n')
+}
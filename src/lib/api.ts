@@ -0,0 +1,37 @@
+const TOKEN_KEY = 'convo-viewer-token'
+
+// A token passed as ?token=… is remembered and stripped from the address bar
+function initToken(): string | null {
+  const url = new URL(window.location.href)
+  const fromUrl = url.searchParams.get('token')
+  if (fromUrl) {
+    localStorage.setItem(TOKEN_KEY, fromUrl)
+    url.searchParams.delete('token')
+    window.history.replaceState(window.history.state, '', url)
+    return fromUrl
+  }
+  return localStorage.getItem(TOKEN_KEY)
+}
+
+const token = initToken()
+
+export class UnauthorizedError extends Error {
+  constructor() {
+    super('Unauthorized. Open the app using the ?token=… link printed by the server.')
+    this.name = 'UnauthorizedError'
+  }
+}
+
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  if (token) headers.set('Authorization', `Bearer ${token}`)
+  const res = await fetch(input, { ...init, headers })
+  if (res.status === 401) throw new UnauthorizedError()
+  return res
+}
+
+// EventSource cannot send headers, so the token travels as a query parameter
+export function apiEventSource(path: string, params: URLSearchParams): EventSource {
+  if (token) params.set('token', token)
+  return new EventSource(`${path}?${params}`)
+}
@@ -0,0 +1,173 @@
+export interface DiffHunk {
+  startLine: number | null
+  searchLines: string[]
+  replaceLines: string[]
+}
+
+export interface FileDiff {
+  path: string
+  hunks: DiffHunk[]
+}
+
+export interface DiffLine {
+  kind: 'context' | 'add' | 'remove'
+  text: string
+  oldNumber: number | null
+  newNumber: number | null
+}
+
+const BLOCK_PATTERN = /<<<<<<< SEARCH>?[^\n]*\n([\s\S]*?)\n?^=======[^\n]*\n([\s\S]*?)\n?^>>>>>>> REPLACE/gm
+const START_LINE_PATTERN = /^:start_line:\s*(\d+)\s*$/
+const HEADER_LINE_PATTERN = /^:(start|end)_line:\s*\d*\s*$/
+const SEPARATOR_PATTERN = /^-------\s*$/
+
+// Roo escapes marker lines that appear inside file content with a backslash
+function unescapeMarkers(line: string): string {
+  return line.replace(/^\\(<<<<<<<|=======|>>>>>>>|-------)/, '$1')
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n').map(unescapeMarkers)
+}
+
+/** Parse Roo's `<<<<<<< SEARCH / ======= / >>>>>>> REPLACE` blocks. */
+export function parseDiffBlocks(diff: string, defaultStartLine: number | null = null): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+
+  for (const match of diff.replace(/\r\n/g, '\n').matchAll(BLOCK_PATTERN)) {
+    const searchRaw = match[1].split('\n')
+    let startLine = defaultStartLine
+
+    // Optional `:start_line:` / `:end_line:` hints, closed by a `-------` line
+    let bodyStart = 0
+    while (bodyStart < searchRaw.length && HEADER_LINE_PATTERN.test(searchRaw[bodyStart])) {
+      const start = searchRaw[bodyStart].match(START_LINE_PATTERN)
+      if (start) startLine = Number(start[1])
+      bodyStart++
+    }
+    if (bodyStart < searchRaw.length && SEPARATOR_PATTERN.test(searchRaw[bodyStart])) {
+      bodyStart++
+    }
+
+    hunks.push({
+      startLine,
+      searchLines: splitLines(searchRaw.slice(bodyStart).join('\n')),
+      replaceLines: splitLines(match[2]),
+    })
+  }
+
+  return hunks
+}
+
+function stripCdata(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  return cdata ? cdata[1] : text
+}
+
+function getTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? stripCdata(match[1]) : null
+}
+
+/** Parse the multi-file `args` form: `<file><path/><diff><content/><start_line/></diff></file>`. */
+function parseArgsXml(args: string): FileDiff[] {
+  const files: FileDiff[] = []
+
+  for (const fileMatch of args.matchAll(/<file>([\s\S]*?)<\/file>/g)) {
+    const fileXml = fileMatch[1]
+    const hunks: DiffHunk[] = []
+
+    for (const diffMatch of fileXml.matchAll(/<diff>([\s\S]*?)<\/diff>/g)) {
+      const content = getTag(diffMatch[1], 'content') ?? ''
+      const startLine = getTag(diffMatch[1], 'start_line')
+      hunks.push(...parseDiffBlocks(content, startLine ? Number(startLine) : null))
+    }
+
+    files.push({ path: getTag(fileXml, 'path')?.trim() ?? '', hunks })
+  }
+
+  return files
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function parseApplyDiffInput(input: Record<string, unknown> | undefined): FileDiff[] {
+  if (!input) return []
+
+  if (typeof input.args === 'string') {
+    return parseArgsXml(input.args)
+  }
+
+  if (typeof input.diff === 'string') {
+    return [{ path: String(input.path ?? ''), hunks: parseDiffBlocks(input.diff) }]
+  }
+
+  // Structured variant: { files: [{ path, diffs: [{ content, start_line }] }] }
+  if (Array.isArray(input.files)) {
+    // Entries come from the model, so anything but an object is skipped
+    return input.files.filter(isRecord).map((file) => ({
+      path: typeof file.path === 'string' ? file.path : '',
+      hunks: (Array.isArray(file.diffs) ? file.diffs : []).filter(isRecord).flatMap((d) => parseDiffBlocks(
+        typeof d.content === 'string' ? d.content : '',
+        typeof d.start_line === 'number' ? d.start_line : null
+      )),
+    }))
+  }
+
+  return []
+}
+
+// Beyond this many cells the LCS table gets too expensive to build in the UI thread
+const MAX_LCS_CELLS = 4_000_000
+
+/** Line-level diff of a hunk via longest common subsequence. */
+export function diffHunk(hunk: DiffHunk): DiffLine[] {
+  const a = hunk.searchLines
+  const b = hunk.replaceLines
+  const first = hunk.startLine ?? 1
+  const lines: DiffLine[] = []
+  let oldNumber = first
+  let newNumber = first
+
+  const push = (kind: DiffLine['kind'], text: string) => {
+    lines.push({
+      kind,
+      text,
+      oldNumber: kind === 'add' ? null : oldNumber++,
+      newNumber: kind === 'remove' ? null : newNumber++,
+    })
+  }
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    a.forEach(line => push('remove', line))
+    b.forEach(line => push('add', line))
+    return lines
+  }
+
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('context', a[i])
+      i++
+      j++
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push('remove', a[i++])
+    } else {
+      push('add', b[j++])
+    }
+  }
+  while (i < a.length) push('remove', a[i++])
+  while (j < b.length) push('add', b[j++])
+
+  return lines
+}
@@ -0,0 +1,46 @@
+export type CommandStatus = 'success' | 'failed' | 'running' | 'rejected' | 'unknown'
+
+export interface CommandResult {
+  status: CommandStatus
+  exitCode: number | null
+  signal: string | null
+  cwd: string | null
+  output: string
+}
+
+const CWD_PATTERN = /(?:within working directory|from) '([^']+)'/
+const EXIT_CODE_PATTERN = /Exit code: (-?\d+)|exit code (-?\d+)/i
+const SIGNAL_PATTERN = /terminated by signal (\w+)/i
+const RUNNING_PATTERN = /^Command is still running in terminal/
+const REJECTED_PATTERN = /^The user denied this operation/
+
+/**
+ * Split Roo's `execute_command` result into its status preamble and the
+ * captured output. Roo writes e.g.
+ * `Command executed in terminal 1 within working directory '/repo'. Exit code: 0\nOutput:\n…`
+ * or `Command is still running in terminal 1 from '/repo'.…Here's the output so far:\n…`.
+ */
+export function parseCommandResult(text: string): CommandResult {
+  const outputMatch = text.match(/\n(?:Output|Here's the output so far):\n?/)
+  const preamble = outputMatch ? text.slice(0, outputMatch.index) : text
+  const output = outputMatch ? text.slice(outputMatch.index! + outputMatch[0].length) : ''
+
+  const exitMatch = preamble.match(EXIT_CODE_PATTERN)
+  const exitCode = exitMatch ? Number(exitMatch[1] ?? exitMatch[2]) : null
+  const signal = preamble.match(SIGNAL_PATTERN)?.[1] ?? null
+
+  let status: CommandStatus = 'unknown'
+  if (RUNNING_PATTERN.test(preamble)) status = 'running'
+  else if (REJECTED_PATTERN.test(preamble)) status = 'rejected'
+  else if (exitCode !== null) status = exitCode === 0 ? 'success' : 'failed'
+  else if (signal || /not successful|failed/i.test(preamble)) status = 'failed'
+
+  return {
+    status,
+    exitCode,
+    signal,
+    cwd: preamble.match(CWD_PATTERN)?.[1] ?? null,
+    // Results in an unrecognized shape are shown verbatim
+    output: status === 'unknown' && !outputMatch ? text : output.replace(/\n+$/, ''),
+  }
+}
@@ -0,0 +1,106 @@
+import type { ContentBlock } from '../types'
+import { getToolResultText, isFailedToolResult } from './tool-results'
+import { getToolInputText } from '../../shared/toolInput'
+
+export interface ConversationSearchOptions {
+  query: string
+  regex: boolean
+  caseSensitive: boolean
+  roles: string[]
+  types: string[]
+  tools: string[]
+  errorsOnly: boolean
+}
+
+export interface ConversationMatch {
+  messageIndex: number
+  blockIndex: number
+  count: number
+}
+
+interface SearchableMessage {
+  role: string
+  content: ContentBlock[] | string
+}
+
+export const EMPTY_SEARCH: ConversationSearchOptions = {
+  query: '',
+  regex: false,
+  caseSensitive: false,
+  roles: [],
+  types: [],
+  tools: [],
+  errorsOnly: false,
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Compile the query into a global RegExp; throws on an invalid pattern. */
+export function buildSearchPattern(options: ConversationSearchOptions): RegExp | null {
+  if (!options.query) return null
+  const source = options.regex ? options.query : escapeRegExp(options.query)
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi')
+}
+
+/** Everything a block carries, including what stays hidden while it is collapsed. */
+export function getBlockSearchText(block: ContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text ?? ''
+    case 'reasoning':
+      return [block.text ?? '', ...(block.summary ?? [])].join('\n')
+    case 'tool_use':
+      return [block.name ?? '', getToolInputText(block.input)].join('\n')
+    case 'tool_result':
+      return getToolResultText(block)
+    default:
+      return ''
+  }
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  pattern.lastIndex = 0
+  let count = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    count++
+    // Zero-width matches would otherwise loop forever
+    if (match[0] === '') pattern.lastIndex++
+  }
+  return count
+}
+
+/**
+ * Blocks matching the query and facet filters, in conversation order. With
+ * an empty query every block passing the facets counts as one match, so the
+ * facets alone can be used to step through e.g. all failed tool calls.
+ */
+export function searchConversation(
+  messages: SearchableMessage[],
+  options: ConversationSearchOptions,
+  pattern: RegExp | null,
+  toolNames: Map<string, string>
+): ConversationMatch[] {
+  const hasFacets = options.roles.length > 0 || options.types.length > 0 || options.tools.length > 0 || options.errorsOnly
+  if (!pattern && !hasFacets) return []
+
+  const matches: ConversationMatch[] = []
+  messages.forEach((message, messageIndex) => {
+    if (options.roles.length > 0 && !options.roles.includes(message.role)) return
+    const blocks = typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content
+
+    blocks.forEach((block, blockIndex) => {
+      if (options.types.length > 0 && !options.types.includes(block.type)) return
+
+      const tool = block.type === 'tool_use' ? block.name : block.tool_use_id ? toolNames.get(block.tool_use_id) : undefined
+      if (options.tools.length > 0 && (!tool || !options.tools.includes(tool))) return
+      if (options.errorsOnly && !(block.type === 'tool_result' && isFailedToolResult(block))) return
+
+      const count = pattern ? countMatches(getBlockSearchText(block), pattern) : 1
+      if (count > 0) matches.push({ messageIndex, blockIndex, count })
+    })
+  })
+  return matches
+}
@@ -0,0 +1,53 @@
+const MATCH_HIGHLIGHT = 'conversation-search'
+const CURRENT_HIGHLIGHT = 'conversation-search-current'
+
+// Caps the work per pass when a common word matches everywhere on screen
+const MAX_RANGES = 2000
+
+function isSupported(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined'
+}
+
+/**
+ * Paint matches of `pattern` inside `root` using the CSS Custom Highlight
+ * API. Unlike wrapping matches in <mark>, this leaves the DOM owned by React
+ * and by the syntax highlighter untouched. Ranges inside `current` get the
+ * second highlight so the active match stands out.
+ */
+export function paintMatches(root: HTMLElement, pattern: RegExp | null, current: Element | null) {
+  if (!isSupported()) return
+  clearMatches()
+  if (!pattern) return
+
+  const matches: Range[] = []
+  const currentMatches: Range[] = []
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+
+  for (let node = walker.nextNode(); node && matches.length < MAX_RANGES; node = walker.nextNode()) {
+    const text = node.textContent ?? ''
+    if (!text) continue
+
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null && matches.length < MAX_RANGES) {
+      if (match[0] === '') {
+        pattern.lastIndex++
+        continue
+      }
+      const range = new Range()
+      range.setStart(node, match.index)
+      range.setEnd(node, match.index + match[0].length)
+      if (current?.contains(node)) currentMatches.push(range)
+      else matches.push(range)
+    }
+  }
+
+  CSS.highlights.set(MATCH_HIGHLIGHT, new Highlight(...matches))
+  CSS.highlights.set(CURRENT_HIGHLIGHT, new Highlight(...currentMatches))
+}
+
+export function clearMatches() {
+  if (!isSupported()) return
+  CSS.highlights.delete(MATCH_HIGHLIGHT)
+  CSS.highlights.delete(CURRENT_HIGHLIGHT)
+}
@@ -0,0 +1,70 @@
+import { parseEnvironmentDetails, parseTaggedText, type EnvironmentPanel } from './roo-tags'
+
+export interface EnvironmentChange {
+  panel: string
+  kind: 'added' | 'removed' | 'changed'
+  added: string[]
+  removed: string[]
+}
+
+interface TextBlock {
+  type: string
+  text?: string
+}
+
+/** The `environment_details` content of a user message, if it carries one. */
+export function getEnvironmentDetails(blocks: TextBlock[]): string | null {
+  for (const block of blocks) {
+    if (block.type !== 'text' || !block.text?.includes('<environment_details>')) continue
+    const section = parseTaggedText(block.text)?.find((s) => s.tag === 'environment_details')
+    if (section) return section.content
+  }
+  return null
+}
+
+// Panels whose content is a comma-separated list rather than one item per line
+const COMMA_SEPARATED = new Set(['VSCode Open Tabs'])
+
+// Workspace headings embed the directory, which would otherwise read as a removed and an added panel
+function getPanelKey(title: string): string {
+  return title.replace(/^Current Workspace Directory \(.*\) Files$/, 'Current Workspace Directory Files')
+}
+
+function getItems(panel: EnvironmentPanel): string[] {
+  const separator = COMMA_SEPARATED.has(panel.title) ? ',' : '\n'
+  return panel.content.split(separator).map((item) => item.trim()).filter(Boolean)
+}
+
+/** Compare two environment_details blocks item by item. */
+export function diffEnvironment(previous: string, next: string): EnvironmentChange[] {
+  const before = new Map(parseEnvironmentDetails(previous).map((panel) => [getPanelKey(panel.title), panel]))
+  const after = parseEnvironmentDetails(next)
+  const changes: EnvironmentChange[] = []
+
+  for (const panel of after) {
+    const key = getPanelKey(panel.title)
+    const previousPanel = before.get(key)
+    before.delete(key)
+
+    const items = getItems(panel)
+    if (!previousPanel) {
+      changes.push({ panel: panel.title, kind: 'added', added: items, removed: [] })
+      continue
+    }
+
+    const previousItems = getItems(previousPanel)
+    const previousSet = new Set(previousItems)
+    const itemSet = new Set(items)
+    const added = items.filter((item) => !previousSet.has(item))
+    const removed = previousItems.filter((item) => !itemSet.has(item))
+    if (added.length > 0 || removed.length > 0) {
+      changes.push({ panel: panel.title, kind: 'changed', added, removed })
+    }
+  }
+
+  for (const panel of before.values()) {
+    changes.push({ panel: panel.title, kind: 'removed', added: [], removed: getItems(panel) })
+  }
+
+  return changes
+}
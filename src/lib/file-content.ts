@@ -0,0 +1,60 @@
+export interface FileSection {
+  path: string
+  content: string
+  startLine: number
+  /** The `lines="…"` range Roo reported, if any */
+  lines?: string
+  error?: string
+  notice?: string
+}
+
+const NUMBERED_LINE_PATTERN = /^\s*(\d+) \| ?(.*)$/
+
+function getTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))
+  return match ? match[1] : undefined
+}
+
+/**
+ * Roo prefixes every line of a read with `N | `. Strip the prefixes and keep
+ * the first number so the highlighter can continue the original numbering.
+ */
+export function stripLineNumbers(text: string): { content: string; startLine: number } {
+  const lines = text.replace(/^\n/, '').replace(/\n$/, '').split('\n')
+  const numbered = lines.every((line) => line === '' || NUMBERED_LINE_PATTERN.test(line))
+  if (!numbered || lines.length === 0) return { content: text, startLine: 1 }
+
+  const first = lines.find((line) => line !== '')?.match(NUMBERED_LINE_PATTERN)
+  return {
+    content: lines.map((line) => line.match(NUMBERED_LINE_PATTERN)?.[2] ?? line).join('\n'),
+    startLine: first ? Number(first[1]) : 1,
+  }
+}
+
+/** Parse Roo's `<files><file><path/><content lines="…"/></file></files>` read result. */
+export function parseReadFileResult(text: string): FileSection[] | null {
+  if (!/<file>\s*<path>/.test(text)) return null
+
+  const sections: FileSection[] = []
+  for (const match of text.matchAll(/<file>([\s\S]*?)<\/file>/g)) {
+    const fileXml = match[1]
+    const contentMatch = fileXml.match(/<content(?:\s+lines="([^"]*)")?\s*(?:\/>|>([\s\S]*?)<\/content>)/)
+    const { content, startLine } = stripLineNumbers(contentMatch?.[2] ?? '')
+
+    sections.push({
+      path: getTag(fileXml, 'path')?.trim() ?? '',
+      content,
+      startLine,
+      lines: contentMatch?.[1],
+      error: getTag(fileXml, 'error')?.trim(),
+      notice: getTag(fileXml, 'notice')?.trim(),
+    })
+  }
+
+  return sections.length > 0 ? sections : null
+}
+
+export function countLines(content: string): number {
+  if (content === '') return 0
+  return content.replace(/\n$/, '').split('\n').length
+}
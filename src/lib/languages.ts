@@ -0,0 +1,69 @@
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'tsx',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'jsx',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  json: 'json',
+  jsonc: 'json',
+  md: 'markdown',
+  mdx: 'markdown',
+  py: 'python',
+  rb: 'ruby',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  swift: 'swift',
+  c: 'c',
+  h: 'c',
+  cc: 'cpp',
+  cpp: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  php: 'php',
+  sh: 'bash',
+  bash: 'bash',
+  zsh: 'bash',
+  ps1: 'powershell',
+  sql: 'sql',
+  html: 'markup',
+  htm: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  vue: 'markup',
+  css: 'css',
+  scss: 'scss',
+  sass: 'sass',
+  less: 'less',
+  yml: 'yaml',
+  yaml: 'yaml',
+  toml: 'toml',
+  ini: 'ini',
+  dockerfile: 'docker',
+  graphql: 'graphql',
+  gql: 'graphql',
+  lua: 'lua',
+  dart: 'dart',
+  scala: 'scala',
+  r: 'r',
+  diff: 'diff',
+  patch: 'diff',
+}
+
+const FILENAME_LANGUAGES: Record<string, string> = {
+  dockerfile: 'docker',
+  makefile: 'makefile',
+}
+
+export function getLanguageForPath(filePath: string | undefined): string {
+  if (!filePath) return 'text'
+  const fileName = filePath.split(/[\\/]/).pop()?.toLowerCase() ?? ''
+  if (FILENAME_LANGUAGES[fileName]) return FILENAME_LANGUAGES[fileName]
+  const extension = fileName.includes('.') ? fileName.split('.').pop()! : ''
+  return EXTENSION_LANGUAGES[extension] ?? 'text'
+}
@@ -0,0 +1,77 @@
+export interface TaggedSection {
+  /** Tag name, or null for untagged text between tags */
+  tag: string | null
+  content: string
+}
+
+export interface EnvironmentPanel {
+  title: string
+  content: string
+}
+
+// Tags that carry what the user actually asked for
+export const REQUEST_TAGS = new Set(['task', 'feedback', 'user_message', 'answer'])
+
+const TOP_LEVEL_TAG_PATTERN = /<([a-z][a-z0-9_-]*)>\n?([\s\S]*?)\n?<\/\1>/g
+
+/**
+ * Split user text into the top-level tags Roo wraps around it, e.g.
+ * `<task>…</task>` followed by `<environment_details>…</environment_details>`.
+ * Returns null for text without any such tags.
+ */
+export function parseTaggedText(text: string): TaggedSection[] | null {
+  const sections: TaggedSection[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(TOP_LEVEL_TAG_PATTERN)) {
+    const before = text.slice(lastIndex, match.index).trim()
+    if (before) sections.push({ tag: null, content: before })
+    sections.push({ tag: match[1], content: match[2] })
+    lastIndex = match.index! + match[0].length
+  }
+
+  if (sections.length === 0) return null
+  const after = text.slice(lastIndex).trim()
+  if (after) sections.push({ tag: null, content: after })
+  return sections
+}
+
+/** Split `environment_details` on its `# Heading` lines. */
+export function parseEnvironmentDetails(content: string): EnvironmentPanel[] {
+  const panels: EnvironmentPanel[] = []
+  let current: EnvironmentPanel | null = null
+
+  for (const line of content.split('\n')) {
+    const heading = line.match(/^# (.+)$/)
+    if (heading) {
+      current = { title: heading[1].trim(), content: '' }
+      panels.push(current)
+    } else if (current) {
+      current.content += (current.content ? '\n' : '') + line
+    } else if (line.trim()) {
+      current = { title: 'Details', content: line }
+      panels.push(current)
+    }
+  }
+
+  return panels.map((panel) => ({ ...panel, content: panel.content.trim() }))
+}
+
+/** Short one-line summary shown next to a collapsed panel title. */
+export function getPanelSummary(panel: EnvironmentPanel): string {
+  if (panel.title === 'Current Mode') {
+    const name = panel.content.match(/<name>([^<]*)<\/name>/)?.[1]
+    const slug = panel.content.match(/<slug>([^<]*)<\/slug>/)?.[1]
+    return name ?? slug ?? ''
+  }
+  if (/Workspace Directory/.test(panel.title)) {
+    const count = panel.content.split('\n').filter((line) => line.trim()).length
+    return `${count} ${count === 1 ? 'entry' : 'entries'}`
+  }
+  if (panel.title === 'VSCode Open Tabs') {
+    const count = panel.content.split(',').filter((tab) => tab.trim()).length
+    return `${count} ${count === 1 ? 'tab' : 'tabs'}`
+  }
+  const firstLine = panel.content.split('\n')[0] ?? ''
+  return firstLine.replace(/^Current time in ISO 8601 UTC format: /, '')
+}
@@ -0,0 +1,128 @@
+import type { MessageLocation } from '../types'
+
+export type AppMode = 'viewer' | 'builder' | 'analytics'
+
+/** Conversation toggles that travel with a link; unset ones fall back to local preferences. */
+export interface ViewOptions {
+  expand?: boolean
+  ui?: boolean
+  showHidden?: boolean
+  paired?: boolean
+  env?: boolean
+  markdown?: boolean
+}
+
+export interface Route {
+  mode: AppMode
+  source?: string
+  taskId?: string
+  draftId?: string
+  target?: MessageLocation | null
+  view?: ViewOptions
+  /** Message at the top of the viewport; unset follows the end of the conversation */
+  scroll?: number
+  /** Blocks the reader expanded by hand */
+  open?: MessageLocation[]
+}
+
+// Query parameter for each toggle, in the order they are written
+const VIEW_PARAMS: [keyof ViewOptions, string][] = [
+  ['expand', 'expand'],
+  ['ui', 'ui'],
+  ['showHidden', 'hidden'],
+  ['paired', 'paired'],
+  ['env', 'env'],
+  ['markdown', 'md'],
+]
+
+/** `#m214` points at a message, `#m214.3` at one of its blocks. */
+export function parseMessageHash(hash: string): MessageLocation | null {
+  const match = /^#m(\d+)(?:\.(\d+))?$/.exec(hash)
+  if (!match) return null
+  return {
+    messageIndex: Number(match[1]),
+    ...(match[2] !== undefined && { blockIndex: Number(match[2]) }),
+  }
+}
+
+export function formatMessageHash(target: MessageLocation | null | undefined): string {
+  if (!target) return ''
+  return target.blockIndex !== undefined ? `#m${target.messageIndex}.${target.blockIndex}` : `#m${target.messageIndex}`
+}
+
+/** `open=12.0,15.3` lists expanded blocks as message.block pairs. */
+function parseOpenBlocks(value: string | null): MessageLocation[] | undefined {
+  if (!value) return undefined
+  const blocks = value.split(',').flatMap((item) => {
+    const match = /^(\d+)\.(\d+)$/.exec(item)
+    return match ? [{ messageIndex: Number(match[1]), blockIndex: Number(match[2]) }] : []
+  })
+  return blocks.length > 0 ? blocks : undefined
+}
+
+function parseScroll(value: string | null): number | undefined {
+  return value !== null && /^\d+$/.test(value) ? Number(value) : undefined
+}
+
+function parseViewOptions(params: URLSearchParams): ViewOptions {
+  const view: ViewOptions = {}
+  for (const [key, param] of VIEW_PARAMS) {
+    const value = params.get(param)
+    if (value === '1' || value === '0') view[key] = value === '1'
+  }
+  return view
+}
+
+/** The route encoded in the address bar, or null for the bare app root. */
+export function parseRoute(location: Pick<Location, 'pathname' | 'search' | 'hash'> = window.location): Route | null {
+  const segments = location.pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  const [mode, ...rest] = segments
+
+  switch (mode) {
+    case 'viewer': {
+      const params = new URLSearchParams(location.search)
+      return {
+        mode,
+        source: rest[0],
+        taskId: rest[1],
+        target: parseMessageHash(location.hash),
+        view: parseViewOptions(params),
+        scroll: parseScroll(params.get('at')),
+        open: parseOpenBlocks(params.get('open')),
+      }
+    }
+    case 'builder':
+      return { mode, draftId: rest[0] }
+    case 'analytics':
+      return { mode, source: rest[0] }
+    default:
+      return null
+  }
+}
+
+export function formatRoute(route: Route): string {
+  const segments: (string | undefined)[] = [route.mode]
+  if (route.mode === 'builder') segments.push(route.draftId)
+  else if (route.source) segments.push(route.source, route.mode === 'viewer' ? route.taskId : undefined)
+
+  const path = '/' + segments.filter((s): s is string => !!s).map(encodeURIComponent).join('/')
+  if (route.mode !== 'viewer' || !route.taskId) return path
+
+  const params = new URLSearchParams()
+  for (const [key, param] of VIEW_PARAMS) {
+    const value = route.view?.[key]
+    if (value !== undefined) params.set(param, value ? '1' : '0')
+  }
+  if (route.scroll !== undefined) params.set('at', String(route.scroll))
+  if (route.open?.length) {
+    params.set('open', route.open.map((block) => `${block.messageIndex}.${block.blockIndex ?? 0}`).join(','))
+  }
+  // Keep the list separators readable in the address bar
+  const search = params.toString().replace(/%2C/g, ',')
+  return `${path}${search ? `?${search}` : ''}${formatMessageHash(route.target)}`
+}
+
+/** Absolute link to a message, for sharing. */
+export function messageUrl(route: Route, target: MessageLocation): string {
+  return new URL(formatRoute({ ...route, target }), window.location.origin).href
+}
@@ -0,0 +1,13 @@
+import type { TaskSource } from '../types'
+
+/** Source id of the merged view, which lists the tasks of every source together. */
+export const ALL_SOURCES = 'all'
+
+/** The merged view is only offered once there is more than one source to merge. */
+export function isSourceAvailable(sources: TaskSource[], id: string): boolean {
+  return id === ALL_SOURCES ? sources.length > 1 : sources.some(s => s.id === id)
+}
+
+export function getSourceLabel(sources: TaskSource[], id: string): string {
+  return sources.find(s => s.id === id)?.label ?? id
+}
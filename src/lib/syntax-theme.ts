@@ -0,0 +1,14 @@
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
+
+// vscDarkPlus with its own backgrounds replaced by the app theme
+export const codeStyle = {
+  ...vscDarkPlus,
+  'pre[class*="language-"]': {
+    ...vscDarkPlus['pre[class*="language-"]'],
+    background: 'hsl(var(--background))',
+  },
+  'code[class*="language-"]': {
+    ...vscDarkPlus['code[class*="language-"]'],
+    background: 'transparent',
+  },
+}
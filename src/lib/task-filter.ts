@@ -0,0 +1,69 @@
+import type { Task, TaskFilter, TaskMeta } from '../types'
+
+export const EMPTY_TASK_FILTER: TaskFilter = {
+  text: '',
+  tags: [],
+  statuses: [],
+  workspace: null,
+  days: null,
+  from: null,
+  to: null,
+  pinnedOnly: false,
+}
+
+export const DAY_OPTIONS = [1, 7, 30, 90]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const NO_META: TaskMeta = { tags: [], pinned: false }
+
+export function getTaskMeta(meta: Record<string, TaskMeta>, taskId: string): TaskMeta {
+  return meta[taskId] ?? NO_META
+}
+
+export function countActiveFilters(filter: TaskFilter): number {
+  return (filter.text.trim() ? 1 : 0) +
+    filter.tags.length +
+    filter.statuses.length +
+    (filter.workspace ? 1 : 0) +
+    (filter.days ? 1 : 0) +
+    (filter.from || filter.to ? 1 : 0) +
+    (filter.pinnedOnly ? 1 : 0)
+}
+
+/** Local midnight of a YYYY-MM-DD day, moved by whole days so DST shifts are respected. */
+function startOfDay(day: string, offset = 0): number {
+  const date = new Date(`${day}T00:00`)
+  date.setDate(date.getDate() + offset)
+  return date.getTime()
+}
+
+/** Tasks passing every part of the filter; a task needs all selected tags but any selected status. */
+export function filterTasks(tasks: Task[], filter: TaskFilter, meta: Record<string, TaskMeta>, now = Date.now()): Task[] {
+  const text = filter.text.trim().toLowerCase()
+  const since = filter.days ? now - filter.days * DAY_MS : null
+  const from = filter.from ? startOfDay(filter.from) : null
+  const to = filter.to ? startOfDay(filter.to, 1) : null
+
+  return tasks.filter((task) => {
+    const { tags, pinned } = getTaskMeta(meta, task.id)
+    if (filter.pinnedOnly && !pinned) return false
+    if (filter.tags.some((tag) => !tags.includes(tag))) return false
+    if (filter.statuses.length > 0 && !filter.statuses.includes(task.status)) return false
+    if (filter.workspace && task.workspace !== filter.workspace) return false
+    if (since !== null && task.timestamp < since) return false
+    if (from !== null && task.timestamp < from) return false
+    if (to !== null && task.timestamp >= to) return false
+    if (text && !task.firstMessage.toLowerCase().includes(text) && !task.id.includes(text)) return false
+    return true
+  })
+}
+
+export function formatDays(days: number): string {
+  return days === 1 ? 'Last 24 hours' : `Last ${days} days`
+}
+
+export function formatDateRange(from: string | null, to: string | null): string {
+  if (from && to) return from === to ? from : `${from} – ${to}`
+  return from ? `Since ${from}` : `Until ${to}`
+}
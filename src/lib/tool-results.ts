@@ -0,0 +1,23 @@
+import type { ContentBlock } from '../types'
+
+/**
+ * Text of a tool_result. Roo stores the content either as a plain string or
+ * as an array of text/image blocks.
+ */
+export function getToolResultText(block: Pick<ContentBlock, 'content'>): string {
+  const content = block.content as unknown
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) {
+    return content
+      .filter((part): part is { type: string; text: string } => part?.type === 'text' && typeof part.text === 'string')
+      .map(part => part.text)
+      .join('\n')
+  }
+  return ''
+}
+
+const FAILURE_PATTERN = /<error[\s>]|Unable to apply diff|failed to apply|The tool execution failed/i
+
+export function isFailedToolResult(block: ContentBlock): boolean {
+  return !!block.is_error || FAILURE_PATTERN.test(getToolResultText(block))
+}
@@ -0,0 +1,28 @@
+import type { Task } from '../types'
+
+export interface WorkspaceSummary {
+  /** null collects tasks whose workspace could not be determined */
+  workspace: string | null
+  count: number
+  lastActivity: number
+}
+
+export function getWorkspaceName(workspace: string | null): string {
+  if (!workspace) return 'Unknown workspace'
+  return workspace.split(/[\\/]/).filter(Boolean).pop() || workspace
+}
+
+/** Task count and latest activity per workspace, most recently active first. */
+export function summarizeWorkspaces(tasks: Task[]): WorkspaceSummary[] {
+  const summaries = new Map<string | null, WorkspaceSummary>()
+  for (const task of tasks) {
+    const workspace = task.workspace ?? null
+    const summary = summaries.get(workspace) ?? { workspace, count: 0, lastActivity: 0 }
+    summary.count++
+    summary.lastActivity = Math.max(summary.lastActivity, task.timestamp)
+    summaries.set(workspace, summary)
+  }
+  return Array.from(summaries.values()).sort((a, b) =>
+    Number(a.workspace === null) - Number(b.workspace === null) || b.lastActivity - a.lastActivity
+  )
+}
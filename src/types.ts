@@ -8,6 +8,8 @@ export interface ContentBlock {
   content?: string
   is_error?: boolean
   summary?: string[]
+  /** Virtual tool_use parsed from an XML tool call in assistant text */
+  xml?: boolean
   source?: {
     type: string
     media_type?: string
@@ -36,10 +38,172 @@ export interface UIMessage {
   partial?: boolean
 }
 
+/** Found on this machine, set in the config file or CLI, or added from the app */
+export type SourceOrigin = 'discovered' | 'config' | 'saved'
+
+export interface TaskSource {
+  id: string
+  label: string
+  editor: string
+  channel: string
+  path: string
+  origin: SourceOrigin
+}
+
+export interface SubtaskLink {
+  toolUseId: string
+  taskId: string
+}
+
+export type TaskStatus = 'active' | 'completed' | 'waiting' | 'error' | 'interrupted'
+
 export interface Task {
   id: string
   timestamp: number
   firstMessage: string
+  size: number
+  createdAt: number
+  messageCount: number
+  tokensIn: number
+  tokensOut: number
+  cacheReads: number
+  cacheWrites: number
+  cost: number
+  durationMs: number
+  status: TaskStatus
+  parentId: string | null
+  subtasks: SubtaskLink[]
+  workspace: string | null
+  /** Id of the source the task was read from, which varies in the merged view */
+  source: string
+}
+
+export interface TaskMeta {
+  tags: string[]
+  pinned: boolean
+}
+
+export interface TaskFilter {
+  text: string
+  tags: string[]
+  statuses: TaskStatus[]
+  workspace: string | null
+  /** Only tasks active within this many days, or null for any time */
+  days: number | null
+  /** First and last day of activity as YYYY-MM-DD, inclusive, or null for no bound */
+  from: string | null
+  to: string | null
+  pinnedOnly: boolean
+}
+
+export interface SavedView {
+  id: string
+  name: string
+  filter: TaskFilter
+}
+
+export interface MessagePatch<T> {
+  start: number
+  messages: T[]
+}
+
+export interface ConversationEvent {
+  taskId: string
+  api: MessagePatch<Message> | null
+  ui: MessagePatch<UIMessage> | null
+}
+
+export interface ConversationCursor {
+  api: string
+  ui: string | null
+}
+
+export interface ConversationSnapshot {
+  apiConversation: Message[]
+  uiMessages: UIMessage[] | null
+  cursor: ConversationCursor
+  reset?: boolean
+}
+
+export interface ConversationDelta {
+  api: MessagePatch<Message>
+  ui: MessagePatch<UIMessage> | null
+  cursor: ConversationCursor
+}
+
+export type ConversationResponse = ConversationSnapshot | ConversationDelta
+
+export interface SearchHit {
+  messageIndex: number
+  blockIndex: number
+  role: string
+  type: string
+  tool: string | null
+  snippet: string
+  highlights: [number, number][]
+}
+
+export interface SearchResult extends Task {
+  score: number
+  hitCount: number
+  hits: SearchHit[]
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  total: number
+}
+
+export interface DailyUsage {
+  requests: number
+  tokensIn: number
+  tokensOut: number
+  cacheReads: number
+  cacheWrites: number
+  cost: number
+}
+
+export interface AnalyticsReport {
+  totals: DailyUsage & {
+    tasks: number
+    avgTurns: number
+    condenseCount: number
+    truncationCount: number
+    tasksWithCondense: number
+    tasksWithTruncation: number
+  }
+  daily: (DailyUsage & { date: string })[]
+  tools: { name: string; uses: number; errors: number; errorRate: number }[]
+  modes: { mode: string; tasks: number }[]
+  workspaces: string[]
+}
+
+export interface MessageLocation {
+  messageIndex: number
+  blockIndex?: number
+}
+
+export type AnnotationSeverity = 'info' | 'warning' | 'error'
+
+export interface Annotation {
+  id: string
+  messageIndex: number
+  /** ts of the annotated message, for placing the note after the history is rewritten */
+  messageTs?: number
+  /** null when the note is on the message as a whole */
+  blockIndex: number | null
+  label: string
+  comment: string
+  severity: AnnotationSeverity
+  createdAt: number
+  updatedAt: number
+}
+
+export type AnnotationDraft = Pick<Annotation, 'messageIndex' | 'messageTs' | 'blockIndex' | 'label' | 'comment' | 'severity'>
+
+export interface AnnotationSummary {
+  count: number
+  severity: AnnotationSeverity
 }
 
 export interface TestTool {
@@ -71,3 +235,7 @@ export function normalizeContent(content: ContentBlock[] | string): ContentBlock
 export function generateId(): string {
   return `toolu_${Math.random().toString(36).substring(2, 15)}`
 }
+
+export function applyMessagePatch<T>(messages: T[] | null, patch: MessagePatch<T>): T[] {
+  return [...(messages ?? []).slice(0, patch.start), ...patch.messages]
+}
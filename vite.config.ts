@@ -5,6 +5,8 @@ import path from 'path'
 import os from 'os'
 
 const PORT_FILE = path.join(os.tmpdir(), 'convo-viewer-server-port')
+// Matches the server's data directory, see server/storage.ts
+const TOKEN_FILE = path.join(process.env.ROOVERSATION_HOME || path.join(os.homedir(), '.rooversation'), 'server-token')
 const DEFAULT_SERVER_PORT = 3001
 
 function getServerPort(): number {
@@ -16,6 +18,16 @@ function getServerPort(): number {
   }
 }
 
+function getServerToken(): string | null {
+  try {
+    return fs.readFileSync(TOKEN_FILE, 'utf-8').trim() || null
+  } catch {
+    return null
+  }
+}
+
+const serverToken = getServerToken()
+
 export default defineConfig({
   plugins: [react()],
   resolve: {
@@ -23,6 +35,11 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    // The Express server serves this directory in production
+    outDir: 'dist/client',
+    emptyOutDir: true,
+  },
   server: {
     port: 5173,
     strictPort: false,
@@ -30,6 +47,7 @@ export default defineConfig({
       '/api': {
         target: `http://localhost:${getServerPort()}`,
         changeOrigin: true,
+        headers: serverToken ? { Authorization: `Bearer ${serverToken}` } : undefined,
         configure: (proxy) => {
           proxy.on('error', () => {
             const newPort = getServerPort()